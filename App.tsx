@@ -1,19 +1,31 @@
 import React, { Suspense } from 'react';
+import { useStore } from './store';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
 import ParticleSystem from './components/ParticleSystem';
-import HandTracker from './components/HandTracker';
+import ExplosionEffects from './components/ExplosionEffects';
+import ControlEffects from './components/ControlEffects';
+import GhostHands from './components/GhostHands';
+import InputPanel from './components/input/InputPanel';
+import './components/input/builtinSources';
 import UIOverlay from './components/UIOverlay';
 
 const SceneContent: React.FC = () => {
+    // Mouse buttons and the wheel drive the hands with the pointer source
+    const cameraInput = useStore((state) => state.inputSource !== 'pointer');
     return (
         <>
             <ambientLight intensity={0.9} />
             <pointLight position={[10, 10, 10]} intensity={10} />
             <Stars radius={100} depth={50} count={1000} factor={4} saturation={0} fade={true} speed={1} />
             <ParticleSystem />
+            <ExplosionEffects />
+            <ControlEffects />
+            <GhostHands />
             <OrbitControls 
                 enablePan={false} 
+                enableRotate={cameraInput}
+                enableZoom={cameraInput}
                 minDistance={10} 
                 maxDistance={100} 
                 autoRotate={true}
@@ -29,10 +41,11 @@ const SceneContent: React.FC = () => {
 }
 
 const App: React.FC = () => {
+  const inputSource = useStore((state) => state.inputSource);
   return (
     <div className="relative w-screen h-screen bg-black overflow-hidden">
       {/* Background UI & Hand Tracker */}
-      <HandTracker />
+      <InputPanel />
       <UIOverlay />
 
       {/* 3D Scene */}
@@ -40,6 +53,7 @@ const App: React.FC = () => {
         camera={{ position: [0, 0, 30], fov: 60 }}
         dpr={[1, 2]} // Handle high DPI screens
         gl={{ antialias: false, alpha: false }} // Optimization
+        style={{ touchAction: inputSource === 'pointer' ? 'none' : 'auto' }}
       >
         <Suspense fallback={null}>
             <SceneContent />
@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../store';
+
+const CONTROL_COLOR = '#b070ff';
+// Just outside the ~20 unit templates, so the gimbal frames the universe
+const GIMBAL_RADIUS = 14;
+
+/**
+ * Visual feedback for the two-fist CONTROL grab: a gimbal around the universe
+ * that turns and scales with it, and a tether between the fists. Fades in
+ * while CONTROL is active and out when the hands open.
+ */
+const ControlEffects: React.FC = () => {
+  const simulationStateRef = useStore((state) => state.simulationStateRef);
+  const handDataRef = useStore((state) => state.handDataRef);
+  const gimbalRef = useRef<THREE.Group>(null);
+  const leftRef = useRef<THREE.Mesh>(null);
+  const rightRef = useRef<THREE.Mesh>(null);
+  const fade = useRef(0);
+
+  const material = useMemo(
+    () =>
+      new THREE.MeshBasicMaterial({
+        color: CONTROL_COLOR,
+        transparent: true,
+        opacity: 0,
+        depthWrite: false,
+        blending: THREE.AdditiveBlending,
+      }),
+    []
+  );
+  const tether = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(6), 3));
+    const lineMaterial = new THREE.LineBasicMaterial({
+      color: CONTROL_COLOR,
+      transparent: true,
+      opacity: 0,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+    const line = new THREE.Line(geometry, lineMaterial);
+    line.frustumCulled = false;
+    return line;
+  }, []);
+
+  useEffect(() => () => {
+    material.dispose();
+    tether.geometry.dispose();
+    (tether.material as THREE.Material).dispose();
+  }, [material, tether]);
+
+  useFrame((_, delta) => {
+    const s = simulationStateRef.current;
+    const hands = handDataRef.current;
+    const gimbal = gimbalRef.current;
+    if (!gimbal || !leftRef.current || !rightRef.current) return;
+
+    const active = hands.gesture === 'CONTROL';
+    fade.current += ((active ? 1 : 0) - fade.current) * Math.min(1, delta * 8);
+    const visible = fade.current > 0.01;
+
+    gimbal.visible = visible;
+    tether.visible = visible && hands.left !== null && hands.right !== null;
+    leftRef.current.visible = tether.visible;
+    rightRef.current.visible = tether.visible;
+    if (!visible) return;
+
+    material.opacity = fade.current * 0.5;
+    (tether.material as THREE.LineBasicMaterial).opacity = fade.current * 0.8;
+
+    // Same transform as the particle group
+    if (s) {
+      gimbal.scale.setScalar(s.currentScale);
+      gimbal.rotation.set(0, s.currentRotationY, s.currentRotationZ);
+    }
+
+    if (hands.left && hands.right) {
+      const positions = tether.geometry.getAttribute('position') as THREE.BufferAttribute;
+      positions.setXYZ(0, hands.left.x, hands.left.y, hands.left.z);
+      positions.setXYZ(1, hands.right.x, hands.right.y, hands.right.z);
+      positions.needsUpdate = true;
+      leftRef.current.position.set(hands.left.x, hands.left.y, hands.left.z);
+      rightRef.current.position.set(hands.right.x, hands.right.y, hands.right.z);
+    }
+  });
+
+  return (
+    <>
+      <group ref={gimbalRef} visible={false}>
+        <mesh material={material} rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[GIMBAL_RADIUS, 0.05, 8, 128]} />
+        </mesh>
+        <mesh material={material}>
+          <torusGeometry args={[GIMBAL_RADIUS, 0.05, 8, 128]} />
+        </mesh>
+        <mesh material={material} rotation={[0, Math.PI / 2, 0]}>
+          <torusGeometry args={[GIMBAL_RADIUS, 0.05, 8, 128]} />
+        </mesh>
+      </group>
+      <primitive object={tether} />
+      <mesh ref={leftRef} visible={false} material={material}>
+        <sphereGeometry args={[0.6, 16, 8]} />
+      </mesh>
+      <mesh ref={rightRef} visible={false} material={material}>
+        <sphereGeometry args={[0.6, 16, 8]} />
+      </mesh>
+    </>
+  );
+};
+
+export default ControlEffects;
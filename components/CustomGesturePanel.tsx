@@ -0,0 +1,309 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import {
+  CustomGesture,
+  GESTURE_ACTION_LABELS,
+  GestureAction,
+  gestureFeatures,
+  MAX_EXAMPLES,
+  parseCustomGestures,
+  serializeCustomGestures,
+} from '../input/customGestures';
+import { listTemplates } from '../utils/templates';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+const fieldClass = 'bg-white/10 rounded px-1 py-0.5 text-[10px] text-white outline-none focus:bg-white/20';
+const buttonClass = 'px-2 py-0.5 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10';
+
+// Time to get into the pose, then how long (and how often) it is sampled
+const COUNTDOWN_MS = 1500;
+const RECORD_MS = 1500;
+const SAMPLE_INTERVAL_MS = 100;
+
+const defaultAction = (type: GestureAction['type']): GestureAction => {
+  switch (type) {
+    case 'shape':
+      return { type, shape: listTemplates()[0]?.id ?? 'sphere' };
+    case 'color':
+      return { type, color: '#ff00ff' };
+    default:
+      return { type };
+  }
+};
+
+const ActionEditor: React.FC<{ action: GestureAction; onChange: (action: GestureAction) => void }> = ({
+  action,
+  onChange,
+}) => (
+  <div className="flex gap-1">
+    <select
+      value={action.type}
+      onChange={(e) => onChange(defaultAction(e.target.value as GestureAction['type']))}
+      className={clsx(fieldClass, 'flex-1 min-w-0')}
+    >
+      {Object.entries(GESTURE_ACTION_LABELS).map(([type, label]) => (
+        <option key={type} value={type} className="bg-gray-900">{label}</option>
+      ))}
+    </select>
+    {action.type === 'shape' && (
+      <select
+        value={action.shape}
+        onChange={(e) => onChange({ type: 'shape', shape: e.target.value })}
+        className={clsx(fieldClass, 'flex-1 min-w-0')}
+      >
+        {listTemplates().map((template) => (
+          <option key={template.id} value={template.id} className="bg-gray-900">{template.icon} {template.name}</option>
+        ))}
+      </select>
+    )}
+    {action.type === 'color' && (
+      <input
+        type="color"
+        value={action.color}
+        onChange={(e) => onChange({ type: 'color', color: e.target.value })}
+        className="w-8 h-5 rounded cursor-pointer bg-transparent"
+      />
+    )}
+  </div>
+);
+
+interface Recording {
+  name: string;
+  phase: 'countdown' | 'recording';
+  progress: number;
+}
+
+/**
+ * Trains custom gestures from examples of the live hands, binds each to an
+ * action, and imports/exports them. Recognition runs in the input pipeline;
+ * the gestures persist in local storage.
+ */
+const CustomGesturePanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { customGestures, setCustomGestures, handDataRef } = useStore();
+  const [name, setName] = useState('');
+  const [hands, setHands] = useState<1 | 2>(1);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [recognized, setRecognized] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const examples = useRef<number[][]>([]);
+
+  // The recognized gesture changes every frame; sample it a few times a second
+  useEffect(() => {
+    const id = setInterval(() => setRecognized(handDataRef.current.customGesture), 200);
+    return () => clearInterval(id);
+  }, [handDataRef]);
+
+  const recordingName = recording?.name;
+  useEffect(() => {
+    if (!recordingName) return;
+    const gesture = useStore.getState().customGestures.find((g) => g.name === recordingName);
+    if (!gesture) return;
+    const start = performance.now();
+    let lastSample = -Infinity;
+    let animationFrameId: number;
+    examples.current = [];
+
+    const tick = () => {
+      const elapsed = performance.now() - start;
+      const recordingPhase = elapsed >= COUNTDOWN_MS;
+      if (recordingPhase && elapsed - lastSample >= SAMPLE_INTERVAL_MS) {
+        lastSample = elapsed;
+        const data = handDataRef.current;
+        // A one-hand gesture is only sampled with one hand in view, so the other one can't sneak in
+        const visible = [data.left, data.right].filter((hand) => hand !== null).length;
+        if (gesture.hands === 2 || visible === 1) examples.current.push(...gestureFeatures(data, gesture.hands));
+      }
+
+      if (elapsed < COUNTDOWN_MS + RECORD_MS) {
+        setRecording({
+          name: gesture.name,
+          phase: recordingPhase ? 'recording' : 'countdown',
+          progress: recordingPhase ? (elapsed - COUNTDOWN_MS) / RECORD_MS : elapsed / COUNTDOWN_MS,
+        });
+        animationFrameId = requestAnimationFrame(tick);
+        return;
+      }
+
+      setRecording(null);
+      if (examples.current.length === 0) {
+        setError(
+          gesture.hands === 2
+            ? 'No hands seen. Show both hands to a camera, video or network source.'
+            : 'No hand seen. Show exactly one hand to a camera, video or network source.'
+        );
+        return;
+      }
+      setError(null);
+      const current = useStore.getState().customGestures;
+      setCustomGestures(
+        current.map((g) =>
+          g.name === gesture.name ? { ...g, examples: [...g.examples, ...examples.current].slice(-MAX_EXAMPLES) } : g
+        )
+      );
+    };
+    animationFrameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [recordingName, handDataRef, setCustomGestures]);
+
+  const update = (gestureName: string, partial: Partial<CustomGesture>) => {
+    setCustomGestures(customGestures.map((g) => (g.name === gestureName ? { ...g, ...partial } : g)));
+  };
+
+  const create = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (customGestures.some((g) => g.name === trimmed)) {
+      setError(`There already is a gesture named ${trimmed}.`);
+      return;
+    }
+    setCustomGestures([...customGestures, { name: trimmed, hands, examples: [], action: { type: 'none' } }]);
+    setName('');
+    setError(null);
+    setRecording({ name: trimmed, phase: 'countdown', progress: 0 });
+  };
+
+  const exportGestures = () => {
+    const blob = new Blob([serializeCustomGestures(customGestures)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'custom.gestures.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported gestures replace ours of the same name
+  const importGestures = async (file: File) => {
+    try {
+      const imported = parseCustomGestures(await file.text());
+      const names = new Set(imported.map((g) => g.name));
+      setCustomGestures([...customGestures.filter((g) => !names.has(g.name)), ...imported]);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to import custom gestures:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import custom gestures.');
+    }
+  };
+
+  return (
+    <div className="absolute top-20 right-80 w-72 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between border-b border-white/10 pb-2">
+        <h2 className="text-white font-semibold text-sm">Custom Gestures</h2>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="rounded-lg bg-white/5 px-2 py-1.5 text-[10px] text-white/80">
+        Recognized: <span className="font-bold">{recognized ?? '–'}</span>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-white/50 uppercase tracking-wider block">New gesture</label>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={name}
+            placeholder="Name"
+            onChange={(e) => setName(e.target.value)}
+            className={clsx(fieldClass, 'flex-1 min-w-0 text-xs')}
+          />
+          <select
+            value={hands}
+            onChange={(e) => setHands(e.target.value === '2' ? 2 : 1)}
+            className={fieldClass}
+          >
+            <option value={1} className="bg-gray-900">1 hand</option>
+            <option value={2} className="bg-gray-900">2 hands</option>
+          </select>
+          <button onClick={create} disabled={!name.trim() || recording !== null} className={clsx(buttonClass, 'disabled:opacity-40')}>
+            Record
+          </button>
+        </div>
+      </div>
+
+      {recording && (
+        <div className="rounded-lg border border-blue-500/30 bg-blue-500/10 p-2 space-y-1 text-[10px] text-white/80">
+          <div>
+            {recording.phase === 'countdown' ? 'Get into the pose…' : 'Hold it…'} ({recording.name})
+          </div>
+          <div className="h-1 rounded bg-white/10 overflow-hidden">
+            <div
+              className={`h-full ${recording.phase === 'countdown' ? 'bg-white/40' : 'bg-blue-500'}`}
+              style={{ width: `${recording.progress * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-[10px] text-red-300 bg-red-500/10 border border-red-500/30 rounded px-2 py-1">⚠️ {error}</div>
+      )}
+
+      <div className="space-y-2">
+        {customGestures.map((gesture) => (
+          <div
+            key={gesture.name}
+            className={clsx(
+              'rounded-lg border p-2 space-y-1.5',
+              recognized === gesture.name ? 'border-blue-500/60 bg-blue-500/10' : 'border-white/10'
+            )}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-white">{gesture.name}</span>
+              <span className="text-[10px] text-white/50">
+                {gesture.hands === 2 ? '2 hands' : '1 hand'} · {gesture.examples.length} examples
+              </span>
+            </div>
+            <ActionEditor action={gesture.action} onChange={(action) => update(gesture.name, { action })} />
+            <div className="grid grid-cols-3 gap-1">
+              <button
+                onClick={() => setRecording({ name: gesture.name, phase: 'countdown', progress: 0 })}
+                disabled={recording !== null}
+                className={clsx(buttonClass, 'disabled:opacity-40')}
+              >
+                + Examples
+              </button>
+              <button onClick={() => update(gesture.name, { examples: [] })} className={buttonClass}>
+                Clear
+              </button>
+              <button
+                onClick={() => setCustomGestures(customGestures.filter((g) => g.name !== gesture.name))}
+                className={clsx(buttonClass, 'hover:bg-red-500/30')}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <button onClick={exportGestures} className="px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10">
+          Export JSON
+        </button>
+        <label className="px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10 text-center cursor-pointer">
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importGestures(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="text-[9px] text-white/40 leading-relaxed">
+        Record a few examples of each pose, ideally with small variations. One-hand gestures work with either
+        hand. Each gesture runs its action once when it starts; planets and explosions appear between your hands.
+      </div>
+    </div>
+  );
+};
+
+export default CustomGesturePanel;
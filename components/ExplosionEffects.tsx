@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../store';
+import { EXPLOSION_DURATION, EXPLOSION_WAVE_SPEED } from '../simulation/explosion';
+
+// Translucent shell with a bright rim, so it reads as a wave front rather than a ball
+const shockwaveMaterial = () =>
+  new THREE.ShaderMaterial({
+    uniforms: {
+      uOpacity: { value: 0 },
+      uColor: { value: new THREE.Color('#ffb070') },
+    },
+    vertexShader: `
+      varying vec3 vNormal;
+      varying vec3 vViewDir;
+      void main() {
+        vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+        vNormal = normalize(normalMatrix * normal);
+        vViewDir = normalize(-mvPosition.xyz);
+        gl_Position = projectionMatrix * mvPosition;
+      }
+    `,
+    fragmentShader: `
+      uniform float uOpacity;
+      uniform vec3 uColor;
+      varying vec3 vNormal;
+      varying vec3 vViewDir;
+      void main() {
+        float rim = 1.0 - abs(dot(vNormal, vViewDir));
+        gl_FragColor = vec4(uColor, pow(rim, 3.0) * uOpacity);
+      }
+    `,
+    transparent: true,
+    depthWrite: false,
+    side: THREE.DoubleSide,
+    blending: THREE.AdditiveBlending,
+  });
+
+// Fullscreen quad drawn straight in clip space
+const flashMaterial = () =>
+  new THREE.ShaderMaterial({
+    uniforms: {
+      uOpacity: { value: 0 },
+    },
+    vertexShader: `
+      void main() {
+        gl_Position = vec4(position.xy, 0.0, 1.0);
+      }
+    `,
+    fragmentShader: `
+      uniform float uOpacity;
+      void main() {
+        gl_FragColor = vec4(1.0, 0.92, 0.8, uOpacity);
+      }
+    `,
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+
+/**
+ * Visual layer for the COLLAPSE explosion: an expanding shockwave shell, a brief
+ * screen flash and decaying camera shake. Driven by the explosion time/center in
+ * the simulation state, so it stays in sync with the physical wave. The particle
+ * heat coloring lives in the particle material.
+ */
+const ExplosionEffects: React.FC = () => {
+  const simulationStateRef = useStore((state) => state.simulationStateRef);
+  const configIntensity = useStore((state) => state.config.explosionIntensity);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const groupRef = useRef<THREE.Group>(null);
+  const shellRef = useRef<THREE.Mesh>(null);
+  const flashRef = useRef<THREE.Mesh>(null);
+  const shaking = useRef(false);
+
+  const shell = useMemo(shockwaveMaterial, []);
+  const flash = useMemo(flashMaterial, []);
+
+  useEffect(() => () => {
+    shell.dispose();
+    flash.dispose();
+  }, [shell, flash]);
+
+  useFrame(() => {
+    const s = simulationStateRef.current;
+    if (!s || !groupRef.current || !shellRef.current || !flashRef.current) return;
+
+    // Same transform as the particle group: the explosion center is in its local space
+    groupRef.current.scale.setScalar(s.currentScale);
+    groupRef.current.rotation.set(0, s.currentRotationY, s.currentRotationZ);
+
+    const age = s.time - s.explosionTime;
+    const intensity = configIntensity * s.explosionStrength;
+    const active = age > 0 && age < EXPLOSION_DURATION && intensity > 0;
+
+    shellRef.current.visible = active;
+    if (active) {
+      const progress = age / EXPLOSION_DURATION;
+      shellRef.current.position.set(s.explosionCenter.x, s.explosionCenter.y, s.explosionCenter.z);
+      shellRef.current.scale.setScalar(Math.max(0.01, age * EXPLOSION_WAVE_SPEED));
+      shell.uniforms.uOpacity.value = Math.min(1, intensity) * (1 - progress) * (1 - progress);
+    }
+
+    // Flash peaks on the trigger and is gone within a fraction of a second
+    const flashOpacity = active ? Math.min(0.9, intensity * 0.6) * Math.exp(-age * 10) : 0;
+    flashRef.current.visible = flashOpacity > 0.01;
+    flash.uniforms.uOpacity.value = flashOpacity;
+
+    // Shake the projection rather than the camera so OrbitControls isn't disturbed
+    const amplitude = active ? intensity * 12 * Math.exp(-age * 3) : 0;
+    if (amplitude > 0.5 && camera instanceof THREE.PerspectiveCamera) {
+      const offsetX = (Math.random() - 0.5) * amplitude;
+      const offsetY = (Math.random() - 0.5) * amplitude;
+      camera.setViewOffset(size.width, size.height, offsetX, offsetY, size.width, size.height);
+      shaking.current = true;
+    } else if (shaking.current && camera instanceof THREE.PerspectiveCamera) {
+      camera.clearViewOffset();
+      shaking.current = false;
+    }
+  });
+
+  return (
+    <>
+      <group ref={groupRef}>
+        <mesh ref={shellRef} visible={false} material={shell}>
+          <sphereGeometry args={[1, 48, 24]} />
+        </mesh>
+      </group>
+      <mesh ref={flashRef} visible={false} material={flash} frustumCulled={false} renderOrder={1000}>
+        <planeGeometry args={[2, 2]} />
+      </mesh>
+    </>
+  );
+};
+
+export default ExplosionEffects;
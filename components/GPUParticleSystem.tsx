@@ -0,0 +1,129 @@
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../store';
+import { GPUSimulation } from '../simulation/GPUSimulation';
+import { createParticleMaterial, updateExplosionUniforms } from '../utils/particleMaterial';
+import type { ParticleHandoff } from './ParticleSystem';
+
+interface GPUParticleSystemProps {
+  onError: (error: unknown) => void; // Lets the parent fall back to the CPU path
+  handoff: ParticleHandoff;
+}
+
+const GPUParticleSystem: React.FC<GPUParticleSystemProps> = ({ onError, handoff }) => {
+  const { config, handDataRef, setActiveBackend, simulationCommandsRef, simulationStateRef, syncPlanets } = useStore();
+  const gl = useThree((state) => state.gl);
+  const pointsRef = useRef<THREE.Points>(null);
+
+  const count = config.count;
+  const [simulation, setSimulation] = useState<GPUSimulation | null>(null);
+  // Same as in the CPU renderer: the first shape is placed, later ones morph
+  const seeded = useRef<GPUSimulation | null>(null);
+  const colorsVersion = useRef(-1);
+
+  useEffect(() => {
+    let sim: GPUSimulation;
+    try {
+      sim = new GPUSimulation(gl, count);
+    } catch (err) {
+      console.warn('GPU simulation unavailable, falling back to CPU:', err);
+      onError(err);
+      return;
+    }
+    setSimulation(sim);
+    setActiveBackend('gpu');
+    return () => {
+      if (seeded.current === sim) handoff.current = sim.snapshot();
+      sim.dispose();
+    };
+  }, [gl, count, onError, setActiveBackend, handoff]);
+
+  const shapeParams = config.shapeParams[config.shape];
+  useEffect(() => {
+    if (!simulation) return;
+    const shape = { template: config.shape, params: shapeParams ?? {} };
+    const { transition } = useStore.getState().config;
+    if (seeded.current === simulation) {
+      simulation.morph(shape, config.color, transition);
+    } else if (handoff.current) {
+      simulation.morph(shape, config.color, transition, handoff.current);
+    } else {
+      simulation.reset(shape, config.color);
+    }
+    handoff.current = null;
+    seeded.current = simulation;
+  }, [simulation, config.shape, shapeParams, config.color, handoff]);
+
+  useEffect(() => {
+    simulation?.setConfig(config);
+  }, [simulation, config]);
+
+  const shaderMaterial = useMemo(
+    () => createParticleMaterial(config.color, config.size, { gpuPositions: true }),
+    [config.color, config.size]
+  );
+
+  // Positions come from the texture; the attribute only sets the vertex count
+  const placeholderPositions = useMemo(() => new Float32Array(count * 3), [count]);
+
+  useFrame((state, delta) => {
+    if (!pointsRef.current || !simulation) return;
+
+    for (const command of simulationCommandsRef.current.splice(0)) {
+      simulation.command(command);
+    }
+    simulation.step(delta, handDataRef.current);
+    const s = simulation.state;
+    simulationStateRef.current = s;
+    syncPlanets(s.planets);
+    updateExplosionUniforms(shaderMaterial, s, config.explosionIntensity);
+
+    // Apply Transforms to Group
+    pointsRef.current.scale.setScalar(s.currentScale);
+    pointsRef.current.rotation.y = s.currentRotationY;
+    pointsRef.current.rotation.z = s.currentRotationZ;
+
+    shaderMaterial.uniforms.uPositions.value = simulation.positionTexture;
+    if (simulation.colorsVersion !== colorsVersion.current) {
+      colorsVersion.current = simulation.colorsVersion;
+      pointsRef.current.geometry.attributes.color.needsUpdate = true;
+    }
+  });
+
+  if (!simulation) return null;
+
+  return (
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry>
+        <bufferAttribute
+          attach="attributes-position"
+          count={count}
+          array={placeholderPositions}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-reference"
+          count={count}
+          array={simulation.references}
+          itemSize={2}
+        />
+        <bufferAttribute
+            attach="attributes-color"
+            count={count}
+            array={simulation.colors}
+            itemSize={3}
+        />
+        <bufferAttribute
+            attach="attributes-alpha"
+            count={count}
+            array={simulation.alphas}
+            itemSize={1}
+        />
+      </bufferGeometry>
+      <primitive object={shaderMaterial} attach="material" />
+    </points>
+  );
+};
+
+export default GPUParticleSystem;
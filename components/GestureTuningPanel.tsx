@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import {
+  BUILTIN_GESTURE_PROFILES,
+  CONDITION_OPS,
+  ConditionOp,
+  GESTURE_FEATURES,
+  GestureCondition,
+  GestureDefinition,
+  GestureFeature,
+  GestureProfile,
+  loadSavedGestureProfiles,
+  parseGestureProfile,
+  saveGestureProfiles,
+  serializeGestureProfile,
+} from '../input/gestureProfile';
+import { Plus, X } from 'lucide-react';
+import clsx from 'clsx';
+
+const fieldClass = 'rounded bg-white/10 px-1 py-0.5 text-[10px] text-white outline-none focus:bg-white/20';
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  step = 1,
+  onChange,
+}) => (
+  <label className="flex flex-col gap-0.5 text-[9px] text-white/50">
+    {label}
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(parsed);
+      }}
+      className={clsx(fieldClass, 'w-full')}
+    />
+  </label>
+);
+
+const ConditionList: React.FC<{
+  title: string;
+  conditions: GestureCondition[];
+  onChange: (conditions: GestureCondition[]) => void;
+}> = ({ title, conditions, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between text-[9px] text-white/50">
+      <span>{title}</span>
+      <button
+        onClick={() => onChange([...conditions, { feature: 'distance', op: '<', value: 0 }])}
+        className="text-white/50 hover:text-white"
+        title="Add condition"
+      >
+        <Plus size={10} />
+      </button>
+    </div>
+    {conditions.map((condition, i) => {
+      const update = (partial: Partial<GestureCondition>) =>
+        onChange(conditions.map((c, j) => (j === i ? { ...c, ...partial } : c)));
+      return (
+        <div key={i} className="flex items-center gap-1">
+          <select
+            value={condition.feature}
+            onChange={(e) => update({ feature: e.target.value as GestureFeature })}
+            title={GESTURE_FEATURES[condition.feature]}
+            className={clsx(fieldClass, 'flex-1 min-w-0')}
+          >
+            {Object.keys(GESTURE_FEATURES).map((feature) => (
+              <option key={feature} value={feature} className="bg-gray-900">{feature}</option>
+            ))}
+          </select>
+          <select
+            value={condition.op}
+            onChange={(e) => update({ op: e.target.value as ConditionOp })}
+            className={clsx(fieldClass, 'w-10')}
+          >
+            {CONDITION_OPS.map((op) => (
+              <option key={op} value={op} className="bg-gray-900">{op}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={condition.value}
+            onChange={(e) => {
+              const parsed = parseFloat(e.target.value);
+              if (!Number.isNaN(parsed)) update({ value: parsed });
+            }}
+            className={clsx(fieldClass, 'w-14')}
+          />
+          <button
+            onClick={() => onChange(conditions.filter((_, j) => j !== i))}
+            className="text-white/40 hover:text-red-400"
+            title="Remove condition"
+          >
+            <X size={10} />
+          </button>
+        </div>
+      );
+    })}
+  </div>
+);
+
+const DefinitionEditor: React.FC<{ definition: GestureDefinition; onChange: (partial: Partial<GestureDefinition>) => void }> = ({
+  definition,
+  onChange,
+}) => (
+  <div className={clsx('rounded-lg border border-white/10 p-2 space-y-2', !definition.enabled && 'opacity-50')}>
+    <label className="flex items-center justify-between text-xs font-semibold text-white">
+      {definition.gesture}
+      <input
+        type="checkbox"
+        checked={definition.enabled}
+        onChange={(e) => onChange({ enabled: e.target.checked })}
+        className="accent-blue-500"
+      />
+    </label>
+    <div className="grid grid-cols-4 gap-1">
+      <NumberField label="Priority" value={definition.priority} onChange={(priority) => onChange({ priority })} />
+      <NumberField label="Hold ms" value={definition.holdMs} step={10} onChange={(holdMs) => onChange({ holdMs })} />
+      <NumberField label="Exit ms" value={definition.exitHoldMs} step={10} onChange={(exitHoldMs) => onChange({ exitHoldMs })} />
+      <NumberField label="Cooldown" value={definition.cooldownMs} step={100} onChange={(cooldownMs) => onChange({ cooldownMs })} />
+    </div>
+    <ConditionList title="Enter when all" conditions={definition.enter} onChange={(enter) => onChange({ enter })} />
+    <ConditionList
+      title={definition.exit ? 'Exit when any' : 'Exit when any (default: enter fails)'}
+      conditions={definition.exit ?? []}
+      onChange={(exit) => onChange({ exit: exit.length > 0 ? exit : undefined })}
+    />
+  </div>
+);
+
+/**
+ * Edits the active gesture profile live, and saves, loads, imports and
+ * exports profiles.
+ */
+const GestureTuningPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { gestureProfile, setGestureProfile } = useStore();
+  const [saved, setSaved] = useState(loadSavedGestureProfiles);
+  const [error, setError] = useState<string | null>(null);
+  const profiles = [...BUILTIN_GESTURE_PROFILES, ...saved];
+
+  const updateDefinition = (index: number, partial: Partial<GestureDefinition>) => {
+    setGestureProfile({
+      ...gestureProfile,
+      definitions: gestureProfile.definitions.map((d, i) => (i === index ? { ...d, ...partial } : d)),
+    });
+  };
+
+  const storeSaved = (next: GestureProfile[]) => {
+    saveGestureProfiles(next);
+    setSaved(next);
+  };
+
+  const save = () => {
+    storeSaved([...saved.filter((p) => p.name !== gestureProfile.name), gestureProfile]);
+  };
+
+  const exportProfile = () => {
+    const blob = new Blob([serializeGestureProfile(gestureProfile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${gestureProfile.name.replace(/\W+/g, '-').toLowerCase()}.gestures.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = async (file: File) => {
+    try {
+      setGestureProfile(parseGestureProfile(await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to import gesture profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import gesture profile.');
+    }
+  };
+
+  const isSaved = saved.some((p) => p.name === gestureProfile.name);
+
+  return (
+    <div className="absolute top-20 right-80 w-72 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between border-b border-white/10 pb-2">
+        <h2 className="text-white font-semibold text-sm">Gesture Tuning</h2>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-white/50 uppercase tracking-wider block">Profile</label>
+        <div className="flex flex-wrap gap-1">
+          {profiles.map((profile, i) => (
+            <button
+              key={`${i}-${profile.name}`}
+              onClick={() => setGestureProfile(profile)}
+              className={clsx(
+                'px-2 py-1 rounded text-[10px] font-medium transition-colors',
+                gestureProfile === profile ? 'bg-blue-600 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'
+              )}
+            >
+              {profile.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={gestureProfile.name}
+            onChange={(e) => setGestureProfile({ ...gestureProfile, name: e.target.value })}
+            className={clsx(fieldClass, 'flex-1 min-w-0 text-xs')}
+          />
+          <button onClick={save} className="px-2 py-0.5 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10">
+            Save
+          </button>
+          {isSaved && (
+            <button
+              onClick={() => storeSaved(saved.filter((p) => p.name !== gestureProfile.name))}
+              className="px-2 py-0.5 rounded bg-white/5 text-[10px] text-white/60 hover:bg-red-500/30"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <button onClick={exportProfile} className="px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10">
+            Export JSON
+          </button>
+          <label className="px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10 text-center cursor-pointer">
+            Import JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importProfile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {error && (
+          <div className="text-[10px] text-red-300 bg-red-500/10 border border-red-500/30 rounded px-2 py-1">
+            ⚠️ {error}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {gestureProfile.definitions.map((definition, i) => (
+          <DefinitionEditor key={definition.gesture} definition={definition} onChange={(partial) => updateDefinition(i, partial)} />
+        ))}
+      </div>
+
+      <div className="text-[9px] text-white/40 leading-relaxed space-y-0.5">
+        {Object.entries(GESTURE_FEATURES).map(([feature, description]) => (
+          <div key={feature}><span className="text-white/60">{feature}</span>: {description}</div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GestureTuningPanel;
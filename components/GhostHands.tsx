@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../store';
+import { HandState } from '../types';
+import { HAND_BONES } from '../input/handPose';
+import { FINGERTIP_INDICES, fingertipStrength } from '../simulation/fingertips';
+
+const JOINT_COUNT = 21;
+// By what the fingertips do to the particles
+const REPEL_COLOR = new THREE.Color('#66ddff');
+const ATTRACT_COLOR = new THREE.Color('#ffaa44');
+const FIST_COLOR = new THREE.Color('#b070ff');
+const BONE_OPACITY = 0.25;
+const JOINT_OPACITY = 0.4;
+const TIP_OPACITY = 0.8;
+
+interface GhostHand {
+  group: THREE.Group;
+  bones: THREE.LineSegments;
+  joints: THREE.Points;
+  tips: THREE.Points;
+  fade: number;
+}
+
+const glowMaterial = <T extends THREE.Material>(material: T): T => {
+  material.transparent = true;
+  material.opacity = 0;
+  material.depthWrite = false;
+  material.blending = THREE.AdditiveBlending;
+  return material;
+};
+
+const pointsOf = (count: number, size: number) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(count * 3), 3));
+  return new THREE.Points(geometry, glowMaterial(new THREE.PointsMaterial({ size })));
+};
+
+const createGhostHand = (): GhostHand => {
+  const boneGeometry = new THREE.BufferGeometry();
+  boneGeometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(HAND_BONES.length * 6), 3));
+  const bones = new THREE.LineSegments(boneGeometry, glowMaterial(new THREE.LineBasicMaterial()));
+  const joints = pointsOf(JOINT_COUNT, 0.25);
+  // Fingertips are drawn bigger: they are what moves the particles
+  const tips = pointsOf(FINGERTIP_INDICES.length, 0.6);
+
+  const group = new THREE.Group();
+  group.add(bones, joints, tips);
+  // Positions change every frame; skip culling against stale bounds
+  for (const object of [bones, joints, tips]) object.frustumCulled = false;
+  group.visible = false;
+  return { group, bones, joints, tips, fade: 0 };
+};
+
+const setGlow = (ghost: GhostHand, color: THREE.Color | null) => {
+  const materials: [THREE.LineBasicMaterial | THREE.PointsMaterial, number][] = [
+    [ghost.bones.material as THREE.LineBasicMaterial, BONE_OPACITY],
+    [ghost.joints.material as THREE.PointsMaterial, JOINT_OPACITY],
+    [ghost.tips.material as THREE.PointsMaterial, TIP_OPACITY],
+  ];
+  for (const [material, opacity] of materials) {
+    if (color) material.color.copy(color);
+    material.opacity = ghost.fade * opacity;
+  }
+};
+
+const updateGhostHand = (ghost: GhostHand, hand: HandState | null, delta: number) => {
+  const landmarks = hand?.landmarks;
+  ghost.fade += ((landmarks ? 1 : 0) - ghost.fade) * Math.min(1, delta * 8);
+  ghost.group.visible = ghost.fade > 0.01;
+  if (!hand || !landmarks) {
+    // Fades out where the hand was last seen
+    setGlow(ghost, null);
+    return;
+  }
+
+  const bonePositions = ghost.bones.geometry.getAttribute('position') as THREE.BufferAttribute;
+  HAND_BONES.forEach(([a, b], i) => {
+    bonePositions.setXYZ(i * 2, landmarks[a].x, landmarks[a].y, landmarks[a].z);
+    bonePositions.setXYZ(i * 2 + 1, landmarks[b].x, landmarks[b].y, landmarks[b].z);
+  });
+  bonePositions.needsUpdate = true;
+
+  const jointPositions = ghost.joints.geometry.getAttribute('position') as THREE.BufferAttribute;
+  landmarks.forEach((joint, i) => jointPositions.setXYZ(i, joint.x, joint.y, joint.z));
+  jointPositions.needsUpdate = true;
+
+  const tipPositions = ghost.tips.geometry.getAttribute('position') as THREE.BufferAttribute;
+  FINGERTIP_INDICES.forEach((joint, i) => tipPositions.setXYZ(i, landmarks[joint].x, landmarks[joint].y, landmarks[joint].z));
+  tipPositions.needsUpdate = true;
+
+  const strength = fingertipStrength(hand);
+  setGlow(ghost, strength === 0 ? FIST_COLOR : strength > 0 ? ATTRACT_COLOR : REPEL_COLOR);
+};
+
+/**
+ * Both hands' skeletons drawn as faint glowing ghosts in world space, where
+ * the physics sees them. Colored by what their fingertips do to the
+ * particles: repel (open), attract (pinched) or nothing (fist). Only sources
+ * with landmarks have skeletons.
+ */
+const GhostHands: React.FC = () => {
+  const handDataRef = useStore((state) => state.handDataRef);
+  const hands = useMemo(() => ({ left: createGhostHand(), right: createGhostHand() }), []);
+
+  useEffect(() => () => {
+    for (const ghost of [hands.left, hands.right]) {
+      for (const object of [ghost.bones, ghost.joints, ghost.tips]) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    }
+  }, [hands]);
+
+  useFrame((_, delta) => {
+    const data = handDataRef.current;
+    updateGhostHand(hands.left, data.left, delta);
+    updateGhostHand(hands.right, data.right, delta);
+  });
+
+  return (
+    <>
+      <primitive object={hands.left.group} />
+      <primitive object={hands.right.group} />
+    </>
+  );
+};
+
+export default GhostHands;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../store';
+import { DEFAULT_HAND_FILTER, HandFilterStats } from '../input/HandFilter';
+import { OneEuroParams } from '../input/OneEuroFilter';
+import { X } from 'lucide-react';
+
+const sliderClass =
+  'w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full';
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, format = (v) => v.toFixed(2), onChange }) => (
+  <div>
+    <label className="text-[10px] text-white/60 flex justify-between">
+      <span>{label}</span>
+      <span>{format(value)}</span>
+    </label>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={sliderClass}
+    />
+  </div>
+);
+
+const AxisEditor: React.FC<{ axis: string; params: OneEuroParams; onChange: (params: OneEuroParams) => void }> = ({
+  axis,
+  params,
+  onChange,
+}) => (
+  <div className="rounded-lg border border-white/10 p-2 space-y-1.5">
+    <div className="text-xs font-semibold text-white">{axis}</div>
+    <Slider
+      label="Min cutoff (Hz)"
+      value={params.minCutoff}
+      min={0.05}
+      max={5}
+      step={0.05}
+      onChange={(minCutoff) => onChange({ ...params, minCutoff })}
+    />
+    <Slider label="Beta" value={params.beta} min={0} max={1} step={0.01} onChange={(beta) => onChange({ ...params, beta })} />
+    <Slider
+      label="Speed cutoff (Hz)"
+      value={params.dCutoff}
+      min={0.1}
+      max={5}
+      step={0.1}
+      onChange={(dCutoff) => onChange({ ...params, dCutoff })}
+    />
+  </div>
+);
+
+const StatsRow: React.FC<{ hand: string; stats: HandFilterStats | undefined }> = ({ hand, stats }) => (
+  <div className="flex justify-between">
+    <span className="text-white/60">{hand}</span>
+    <span>jitter {stats ? stats.jitter.toFixed(3) : '–'}</span>
+    <span>lag {stats ? `${Math.round(stats.lag)} ms` : '–'}</span>
+  </div>
+);
+
+/**
+ * Tunes the hand position filter live: One Euro parameters per axis,
+ * prediction and the grace period for lost hands, with a jitter/lag readout.
+ */
+const HandFilterPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { handFilter, setHandFilter, handFilterStatsRef } = useStore();
+  const [stats, setStats] = useState<{ left: HandFilterStats; right: HandFilterStats } | null>(null);
+
+  // The stats change every frame; sample them a few times a second
+  useEffect(() => {
+    const id = setInterval(() => {
+      const current = handFilterStatsRef.current;
+      setStats(current && { left: { ...current.left }, right: { ...current.right } });
+    }, 200);
+    return () => clearInterval(id);
+  }, [handFilterStatsRef]);
+
+  return (
+    <div className="absolute top-20 right-80 w-72 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between border-b border-white/10 pb-2">
+        <h2 className="text-white font-semibold text-sm">Hand Smoothing</h2>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="rounded-lg bg-white/5 px-2 py-1.5 text-[10px] text-white/80 space-y-0.5 font-mono">
+        <StatsRow hand="L" stats={stats?.left} />
+        <StatsRow hand="R" stats={stats?.right} />
+      </div>
+
+      <div className="space-y-2">
+        {(['x', 'y', 'z'] as const).map((axis) => (
+          <AxisEditor
+            key={axis}
+            axis={axis.toUpperCase()}
+            params={handFilter[axis]}
+            onChange={(params) => setHandFilter({ ...handFilter, [axis]: params })}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <Slider
+          label="Prediction"
+          value={handFilter.predictionMs}
+          min={0}
+          max={100}
+          step={5}
+          format={(v) => `${v} ms`}
+          onChange={(predictionMs) => setHandFilter({ ...handFilter, predictionMs })}
+        />
+        <Slider
+          label="Lost hand grace"
+          value={handFilter.graceMs}
+          min={0}
+          max={500}
+          step={10}
+          format={(v) => `${v} ms`}
+          onChange={(graceMs) => setHandFilter({ ...handFilter, graceMs })}
+        />
+      </div>
+
+      <button
+        onClick={() => setHandFilter(DEFAULT_HAND_FILTER)}
+        className="w-full px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10"
+      >
+        Reset to defaults
+      </button>
+
+      <div className="text-[9px] text-white/40 leading-relaxed">
+        Lower min cutoff smooths a still hand more; higher beta follows fast motion with less lag. Prediction
+        offsets camera latency but overshoots on sudden stops.
+      </div>
+    </div>
+  );
+};
+
+export default HandFilterPanel;
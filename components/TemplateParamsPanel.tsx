@@ -0,0 +1,74 @@
+import React from 'react';
+import { useStore } from '../store';
+import { getTemplate, resolveTemplateParams } from '../utils/templates';
+import { X } from 'lucide-react';
+
+const sliderClass =
+  'w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full';
+
+// Digits to show for a slider of this step
+const decimals = (step: number) => Math.max(0, -Math.floor(Math.log10(step)));
+
+/**
+ * Sliders for the current template's parameters, generated from its schema.
+ * Values are kept per template, so switching back restores them.
+ */
+const TemplateParamsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { config, setConfig } = useStore();
+  const template = getTemplate(config.shape);
+  const saved = config.shapeParams[config.shape] ?? {};
+  const params = template ? resolveTemplateParams(template, saved) : {};
+
+  const setParams = (next: Record<string, number>) =>
+    setConfig({ shapeParams: { ...config.shapeParams, [config.shape]: next } });
+
+  return (
+    <div className="absolute top-20 right-80 w-72 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between border-b border-white/10 pb-2">
+        <h2 className="text-white font-semibold text-sm">
+          {template ? `${template.icon} ${template.name}` : 'Template'}
+        </h2>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      {template && template.params.length > 0 ? (
+        <div className="space-y-1.5">
+          {template.params.map((param) => (
+            <div key={param.key}>
+              <label className="text-[10px] text-white/60 flex justify-between">
+                <span>{param.label}</span>
+                <span>{params[param.key].toFixed(decimals(param.step))}</span>
+              </label>
+              <input
+                type="range"
+                min={param.min}
+                max={param.max}
+                step={param.step}
+                value={params[param.key]}
+                onChange={(e) => setParams({ ...saved, [param.key]: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-[10px] text-white/50">This template has no parameters.</div>
+      )}
+
+      <button
+        onClick={() => setParams({})}
+        className="w-full px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10"
+      >
+        Reset to defaults
+      </button>
+
+      <div className="text-[9px] text-white/40 leading-relaxed">
+        Every change regenerates the template. Values are remembered per template.
+      </div>
+    </div>
+  );
+};
+
+export default TemplateParamsPanel;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { createTextTemplate, FONTS, importImageFile } from '../utils/rasterImport';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+const fieldClass = 'bg-white/10 rounded px-1 py-0.5 text-[10px] text-white outline-none focus:bg-white/20';
+const buttonClass = 'px-2 py-1 rounded bg-white/5 text-[10px] text-white/60 hover:bg-white/10';
+
+/**
+ * Turns text or an image into a template: the particles spell the text or
+ * form the image, and hold it like any other shape.
+ */
+const TextImagePanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { selectTemplate } = useStore();
+  const [text, setText] = useState('');
+  const [font, setFont] = useState(FONTS[0].css);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (create: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      selectTemplate(await create());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to create template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the template.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-20 right-80 w-72 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between border-b border-white/10 pb-2">
+        <h2 className="text-white font-semibold text-sm">Text & Images</h2>
+        <button onClick={onClose} className="text-white/50 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-white/50 uppercase tracking-wider block">Text</label>
+        <textarea
+          value={text}
+          rows={2}
+          placeholder="Your name here"
+          onChange={(e) => setText(e.target.value)}
+          className={clsx(fieldClass, 'w-full text-xs resize-none')}
+        />
+        <div className="flex gap-1">
+          <select value={font} onChange={(e) => setFont(e.target.value)} className={clsx(fieldClass, 'flex-1 min-w-0')}>
+            {FONTS.map(({ label, css }) => (
+              <option key={css} value={css} className="bg-gray-900">{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => run(() => createTextTemplate(text, font))}
+            disabled={busy || !text.trim()}
+            className={clsx(buttonClass, 'disabled:opacity-40')}
+          >
+            Spell it
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-white/50 uppercase tracking-wider block">Image</label>
+        <label className={clsx(buttonClass, 'block text-center cursor-pointer', busy && 'opacity-40 pointer-events-none')}>
+          {busy ? 'Working…' : 'Choose an image'}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) run(() => importImageFile(file));
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="text-[10px] text-red-300 bg-red-500/10 border border-red-500/30 rounded px-2 py-1">⚠️ {error}</div>
+      )}
+
+      <div className="text-[9px] text-white/40 leading-relaxed">
+        Each text or image becomes a template; size, depth and (for images) brightness weighting and colors are in
+        its template parameters. Logos work best on a transparent or plain background.
+      </div>
+    </div>
+  );
+};
+
+export default TextImagePanel;
@@ -1,12 +1,69 @@
 import React from 'react';
 import { useStore } from '../store';
-import { ShapeType } from '../types';
-import { Settings2, Hand, Info, Circle, Zap, Minimize2, Maximize2 } from 'lucide-react';
+import { GravityWell } from '../types';
+import { MAX_GRAVITY_WELLS } from '../simulation/gravity';
+import { MAX_PLANETS } from '../simulation/planets';
+import { listInputSources } from '../input/registry';
+import { listTemplates } from '../utils/templates';
+import { importMeshFile, isMeshFile, MESH_EXTENSIONS } from '../utils/meshImport';
+import GestureTuningPanel from './GestureTuningPanel';
+import HandFilterPanel from './HandFilterPanel';
+import CustomGesturePanel from './CustomGesturePanel';
+import TemplateParamsPanel from './TemplateParamsPanel';
+import TextImagePanel from './TextImagePanel';
+import { Settings2, Hand, Info, Circle, Zap, Minimize2, Maximize2, X } from 'lucide-react';
 import clsx from 'clsx';
 
+// Drops a well somewhere inside the default ~20 unit scene
+const randomGravityWell = (): GravityWell => ({
+  x: (Math.random() - 0.5) * 16,
+  y: (Math.random() - 0.5) * 16,
+  z: (Math.random() - 0.5) * 8,
+  mass: 60,
+});
+
 const UIOverlay: React.FC = () => {
-  const { config, setConfig, isHandTrackingReady } = useStore();
+  const {
+    config, setConfig, selectTemplate, isHandTrackingReady, activeBackend, planets, sendSimulationCommand,
+    inputSource, setInputSource, setCameraError,
+  } = useStore();
   const [isOpen, setIsOpen] = React.useState(true);
+  // Floating tuning panel next to the sidebar, one at a time
+  type TuningPanel = 'gestures' | 'smoothing' | 'custom' | 'template' | 'textImage';
+  const [tuningPanel, setTuningPanel] = React.useState<TuningPanel | null>(null);
+  const toggleTuningPanel = (panel: TuningPanel) =>
+    setTuningPanel(tuningPanel === panel ? null : panel);
+  const [importingMesh, setImportingMesh] = React.useState(false);
+  const [meshError, setMeshError] = React.useState<string | null>(null);
+
+  const importMesh = React.useCallback(async (file: File) => {
+    setImportingMesh(true);
+    try {
+      selectTemplate(await importMeshFile(file));
+      setMeshError(null);
+    } catch (err) {
+      console.error('Failed to import mesh:', err);
+      setMeshError(err instanceof Error ? err.message : 'Failed to import the mesh.');
+    } finally {
+      setImportingMesh(false);
+    }
+  }, [selectTemplate]);
+
+  // Mesh files can be dropped anywhere on the page
+  React.useEffect(() => {
+    const onDragOver = (e: DragEvent) => e.preventDefault();
+    const onDrop = (e: DragEvent) => {
+      e.preventDefault();
+      const file = [...(e.dataTransfer?.files ?? [])].find(isMeshFile);
+      if (file) importMesh(file);
+    };
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [importMesh]);
 
   return (
     <>
@@ -30,11 +87,12 @@ const UIOverlay: React.FC = () => {
             )}
             
             <div className="bg-black/40 backdrop-blur text-white/60 p-2 rounded text-[10px] max-w-[200px] text-right pointer-events-auto">
-                <p className="mb-1"><span className="text-yellow-400 font-bold">Circle</span> = Create Planet</p>
-                <p className="mb-1"><span className="text-red-400 font-bold">Collapse</span> = Explosion</p>
+                <p className="mb-1"><span className="text-yellow-400 font-bold">Hold a Ring</span> = Create Planet</p>
+                <p className="mb-1"><span className="text-red-400 font-bold">Clap Together</span> = Explosion</p>
+                <p className="mb-1 text-[9px] opacity-70">Faster clap, bigger blast • Clap over a planet destroys it</p>
                 <p className="mb-1"><span className="text-blue-400 font-bold">Open/Close</span> = Push/Pull</p>
                 <p className="border-t border-white/20 pt-1 mt-1"><span className="text-purple-400 font-bold">TWO FISTS</span> = <span className="italic">GOD MODE</span></p>
-                <p className="text-[9px] opacity-70">Move to Rotate • Distance to Zoom</p>
+                <p className="text-[9px] opacity-70">Move to Rotate • Distance to Zoom • Open to Release</p>
             </div>
         </div>
       </div>
@@ -53,25 +111,149 @@ const UIOverlay: React.FC = () => {
             </button>
         </div>
 
+        {/* Input Source */}
+        <div className="mb-4">
+            <label className="text-xs text-white/50 uppercase tracking-wider mb-2 block">Input</label>
+            <div className="grid grid-cols-3 gap-2">
+                {listInputSources().map(({ id, label, fallback }) => (
+                    <button
+                        key={id}
+                        onClick={() => {
+                            // Picking a source with a fallback (the camera) again retries it
+                            if (fallback) setCameraError(null);
+                            setInputSource(id);
+                        }}
+                        className={clsx(
+                            "px-3 py-2 rounded text-xs font-medium transition-colors",
+                            inputSource === id
+                                ? "bg-blue-600 text-white shadow-lg shadow-blue-500/20"
+                                : "bg-white/5 text-white/60 hover:bg-white/10"
+                        )}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+                <button
+                    onClick={() => toggleTuningPanel('gestures')}
+                    className={clsx(
+                        "px-3 py-1 rounded text-[10px] font-medium transition-colors",
+                        tuningPanel === 'gestures' ? "bg-blue-600 text-white" : "bg-white/5 text-white/60 hover:bg-white/10"
+                    )}
+                >
+                    Tune gestures
+                </button>
+                <button
+                    onClick={() => toggleTuningPanel('smoothing')}
+                    className={clsx(
+                        "px-3 py-1 rounded text-[10px] font-medium transition-colors",
+                        tuningPanel === 'smoothing' ? "bg-blue-600 text-white" : "bg-white/5 text-white/60 hover:bg-white/10"
+                    )}
+                >
+                    Tune smoothing
+                </button>
+                <button
+                    onClick={() => toggleTuningPanel('custom')}
+                    className={clsx(
+                        "col-span-2 px-3 py-1 rounded text-[10px] font-medium transition-colors",
+                        tuningPanel === 'custom' ? "bg-blue-600 text-white" : "bg-white/5 text-white/60 hover:bg-white/10"
+                    )}
+                >
+                    Custom gestures
+                </button>
+            </div>
+        </div>
+
         {/* Shape Selector */}
         <div className="mb-4">
             <label className="text-xs text-white/50 uppercase tracking-wider mb-2 block">Visual Template</label>
             <div className="grid grid-cols-2 gap-2">
-                {Object.values(ShapeType).map((shape) => (
+                {listTemplates().map((template) => (
                     <button
-                        key={shape}
-                        onClick={() => setConfig({ shape })}
+                        key={template.id}
+                        onClick={() => setConfig({ shape: template.id })}
                         className={clsx(
                             "px-3 py-2 rounded text-xs font-medium text-left transition-colors",
-                            config.shape === shape 
+                            config.shape === template.id 
                                 ? "bg-blue-600 text-white shadow-lg shadow-blue-500/20" 
                                 : "bg-white/5 text-white/60 hover:bg-white/10"
                         )}
                     >
-                        {shape}
+                        {template.icon} {template.name}
+                    </button>
+                ))}
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+                <button
+                    onClick={() => toggleTuningPanel('template')}
+                    className={clsx(
+                        "px-3 py-1 rounded text-[10px] font-medium transition-colors",
+                        tuningPanel === 'template' ? "bg-blue-600 text-white" : "bg-white/5 text-white/60 hover:bg-white/10"
+                    )}
+                >
+                    Template parameters
+                </button>
+                <label className={clsx(
+                    "px-3 py-1 rounded text-[10px] font-medium text-center transition-colors bg-white/5 text-white/60 hover:bg-white/10 cursor-pointer",
+                    importingMesh && "opacity-40 pointer-events-none"
+                )}>
+                    {importingMesh ? 'Importing…' : 'Import mesh'}
+                    <input
+                        type="file"
+                        accept={MESH_EXTENSIONS.join(',')}
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importMesh(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <button
+                    onClick={() => toggleTuningPanel('textImage')}
+                    className={clsx(
+                        "col-span-2 px-3 py-1 rounded text-[10px] font-medium transition-colors",
+                        tuningPanel === 'textImage' ? "bg-blue-600 text-white" : "bg-white/5 text-white/60 hover:bg-white/10"
+                    )}
+                >
+                    Text or image
+                </button>
+            </div>
+            {meshError && (
+                <div className="mt-2 text-[10px] text-red-300 bg-red-500/10 border border-red-500/30 rounded px-2 py-1">⚠️ {meshError}</div>
+            )}
+            <p className="mt-1 text-[9px] text-white/40">Or drop an OBJ, PLY or GLB file anywhere. Its colors replace the particle color.</p>
+        </div>
+
+        {/* Transition between templates, colors and particle counts */}
+        <div className="mb-4">
+            <label className="flex justify-between text-xs text-white/50 uppercase tracking-wider mb-2">
+                <span>Transition</span>
+                <span className="normal-case tracking-normal text-white/40">{config.transition.duration.toFixed(1)}s</span>
+            </label>
+            <div className="grid grid-cols-4 gap-1 mb-2">
+                {(['direct', 'swirl', 'explode', 'stagger'] as const).map((style) => (
+                    <button
+                        key={style}
+                        onClick={() => setConfig({ transition: { ...config.transition, style } })}
+                        className={clsx(
+                            "px-1 py-1 rounded text-[10px] font-medium transition-colors capitalize",
+                            config.transition.style === style
+                                ? "bg-blue-600 text-white"
+                                : "bg-white/5 text-white/60 hover:bg-white/10"
+                        )}
+                    >
+                        {style}
                     </button>
                 ))}
             </div>
+            <input
+                type="range" min="0.3" max="5" step="0.1"
+                value={config.transition.duration}
+                onChange={(e) => setConfig({ transition: { ...config.transition, duration: parseFloat(e.target.value) } })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
+            />
         </div>
 
         {/* Color Picker */}
@@ -89,6 +271,46 @@ const UIOverlay: React.FC = () => {
              </div>
         </div>
 
+        {/* Simulation Backend */}
+        <div className="mb-4">
+            <label className="flex justify-between text-xs text-white/50 uppercase tracking-wider mb-2">
+                <span>Simulation</span>
+                <span className="normal-case tracking-normal text-white/40">{activeBackend}</span>
+            </label>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+                {(['cpu', 'gpu'] as const).map((backend) => (
+                    <button
+                        key={backend}
+                        onClick={() => setConfig({ backend })}
+                        className={clsx(
+                            "px-3 py-2 rounded text-xs font-medium transition-colors uppercase",
+                            config.backend === backend
+                                ? "bg-blue-600 text-white shadow-lg shadow-blue-500/20"
+                                : "bg-white/5 text-white/60 hover:bg-white/10"
+                        )}
+                    >
+                        {backend}
+                    </button>
+                ))}
+            </div>
+            <div className="grid grid-cols-4 gap-1">
+                {[50000, 200000, 500000, 1000000].map((count) => (
+                    <button
+                        key={count}
+                        onClick={() => setConfig({ count })}
+                        className={clsx(
+                            "px-1 py-1 rounded text-[10px] font-medium transition-colors",
+                            config.count === count
+                                ? "bg-blue-600 text-white"
+                                : "bg-white/5 text-white/60 hover:bg-white/10"
+                        )}
+                    >
+                        {count >= 1000000 ? `${count / 1000000}M` : `${count / 1000}k`}
+                    </button>
+                ))}
+            </div>
+        </div>
+
         {/* Sliders */}
         <div className="space-y-4">
             <div>
@@ -103,6 +325,140 @@ const UIOverlay: React.FC = () => {
                     className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
                 />
             </div>
+            <div>
+                <label className="text-xs text-white/70 mb-1 block">Gravity Falloff</label>
+                <div className="grid grid-cols-3 gap-1">
+                    {(['inverse-square', 'linear', 'constant'] as const).map((falloff) => (
+                        <button
+                            key={falloff}
+                            onClick={() => setConfig({ gravityFalloff: falloff })}
+                            className={clsx(
+                                "px-1 py-1 rounded text-[10px] font-medium transition-colors",
+                                config.gravityFalloff === falloff
+                                    ? "bg-blue-600 text-white"
+                                    : "bg-white/5 text-white/60 hover:bg-white/10"
+                            )}
+                        >
+                            {falloff === 'inverse-square' ? '1/r²' : falloff === 'linear' ? '1/r' : 'const'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div>
+                <label className="flex justify-between text-xs text-white/70 mb-1">
+                    <span>Downward Pull</span>
+                    <span>{(-config.gravityDirection.y).toFixed(1)}</span>
+                </label>
+                <input 
+                    type="range" min="0" max="5" step="0.1"
+                    value={-config.gravityDirection.y}
+                    onChange={(e) => setConfig({ gravityDirection: { x: 0, y: -parseFloat(e.target.value), z: 0 } })}
+                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
+                />
+            </div>
+            <div className="flex items-center justify-between text-xs text-white/70">
+                <span>Gravity Wells ({config.gravityWells.length})</span>
+                <div className="flex gap-1">
+                    <button
+                        onClick={() => setConfig({ gravityWells: [...config.gravityWells, randomGravityWell()] })}
+                        disabled={config.gravityWells.length >= MAX_GRAVITY_WELLS}
+                        className="px-2 py-0.5 rounded bg-white/5 text-white/60 hover:bg-white/10 disabled:opacity-30"
+                    >
+                        + Add
+                    </button>
+                    <button
+                        onClick={() => setConfig({ gravityWells: [] })}
+                        className="px-2 py-0.5 rounded bg-white/5 text-white/60 hover:bg-white/10"
+                    >
+                        Clear
+                    </button>
+                </div>
+            </div>
+            <div>
+                <label className="flex justify-between text-xs text-white/70 mb-1">
+                    <span>Explosion Intensity</span>
+                    <span>{config.explosionIntensity.toFixed(1)}</span>
+                </label>
+                <input 
+                    type="range" min="0" max="3" step="0.1"
+                    value={config.explosionIntensity}
+                    onChange={(e) => setConfig({ explosionIntensity: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
+                />
+            </div>
+            <div>
+                <label className="flex items-center justify-between text-xs text-white/70 mb-1">
+                    <span>Planets ({planets.length}/{MAX_PLANETS})</span>
+                    <span className="flex items-center gap-1">
+                        Rings
+                        <input
+                            type="checkbox"
+                            checked={config.planetRings}
+                            onChange={(e) => setConfig({ planetRings: e.target.checked })}
+                            className="accent-blue-500"
+                        />
+                    </span>
+                </label>
+                {planets.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {planets.map((planet) => (
+                            <button
+                                key={planet.id}
+                                onClick={() => sendSimulationCommand({ type: 'destroyPlanet', id: planet.id })}
+                                title="Destroy planet"
+                                className="flex items-center gap-1 px-2 py-0.5 rounded bg-white/5 text-[10px] text-white/60 hover:bg-red-500/30 hover:text-white"
+                            >
+                                {planet.ring ? '🪐' : '●'} #{planet.id} <X size={10} />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <div>
+                <label className="flex items-center justify-between text-xs text-white/70 mb-1">
+                    <span>Collisions</span>
+                    <input
+                        type="checkbox"
+                        checked={config.collisionEnabled}
+                        onChange={(e) => setConfig({ collisionEnabled: e.target.checked })}
+                        className="accent-blue-500"
+                    />
+                </label>
+                {config.collisionEnabled && (
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-3 gap-1">
+                            {(['elastic', 'inelastic', 'merge'] as const).map((mode) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setConfig({ collisionMode: mode })}
+                                    className={clsx(
+                                        "px-1 py-1 rounded text-[10px] font-medium capitalize transition-colors",
+                                        config.collisionMode === mode
+                                            ? "bg-blue-600 text-white"
+                                            : "bg-white/5 text-white/60 hover:bg-white/10"
+                                    )}
+                                >
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+                        {config.collisionMode === 'inelastic' && (
+                            <div>
+                                <label className="flex justify-between text-xs text-white/70 mb-1">
+                                    <span>Restitution</span>
+                                    <span>{config.restitution.toFixed(2)}</span>
+                                </label>
+                                <input 
+                                    type="range" min="0" max="1" step="0.05"
+                                    value={config.restitution}
+                                    onChange={(e) => setConfig({ restitution: parseFloat(e.target.value) })}
+                                    className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
+                                />
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
             <div>
                 <label className="flex justify-between text-xs text-white/70 mb-1">
                     <span>Particle Size</span>
@@ -118,6 +474,12 @@ const UIOverlay: React.FC = () => {
         </div>
       </div>
 
+      {isOpen && tuningPanel === 'gestures' && <GestureTuningPanel onClose={() => setTuningPanel(null)} />}
+      {isOpen && tuningPanel === 'smoothing' && <HandFilterPanel onClose={() => setTuningPanel(null)} />}
+      {isOpen && tuningPanel === 'custom' && <CustomGesturePanel onClose={() => setTuningPanel(null)} />}
+      {isOpen && tuningPanel === 'template' && <TemplateParamsPanel onClose={() => setTuningPanel(null)} />}
+      {isOpen && tuningPanel === 'textImage' && <TextImagePanel onClose={() => setTuningPanel(null)} />}
+
       {/* Toggle Button */}
       {!isOpen && (
         <button 
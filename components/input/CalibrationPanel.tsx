@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../../store';
+import { InputManager } from '../../input/InputManager';
+import { Landmark } from '../../input/handPose';
+import {
+  CalibrationProfile,
+  CalibrationSamples,
+  DEFAULT_CALIBRATION,
+  fitCalibration,
+  loadSavedCalibrations,
+  MIN_CALIBRATION_SAMPLES,
+  saveCalibrations,
+} from '../../input/calibration';
+
+interface CalibrationStep {
+  key: keyof CalibrationSamples;
+  icon: string;
+  instruction: string;
+  seconds: number;
+}
+
+const STEPS: CalibrationStep[] = [
+  { key: 'open', icon: '🖐️', instruction: 'Hold both hands up, fingers spread wide.', seconds: 3 },
+  { key: 'fist', icon: '👊', instruction: 'Make two tight fists.', seconds: 3 },
+  { key: 'pinch', icon: '🤏', instruction: 'Pinch thumb and index finger together on both hands.', seconds: 3 },
+  { key: 'reach', icon: '↔️', instruction: 'Sweep your hands slowly around the edges of your comfortable reach.', seconds: 6 },
+];
+
+// Time to get into the pose before a step starts recording
+const COUNTDOWN_SECONDS = 2;
+
+type Phase = 'countdown' | 'recording' | 'failed' | 'done';
+
+/**
+ * Guides the user through the calibration poses while collecting the raw
+ * landmarks of each, then fits a profile they can name and save.
+ */
+const CalibrationWizard: React.FC<{ manager: InputManager; onClose: () => void }> = ({ manager, onClose }) => {
+  const setCalibration = useStore((state) => state.setCalibration);
+  const [step, setStep] = useState(0);
+  const [phase, setPhase] = useState<Phase>('countdown');
+  const [progress, setProgress] = useState(0);
+  const [name, setName] = useState(`Calibration ${loadSavedCalibrations().length + 1}`);
+  const samples = useRef<CalibrationSamples>({ open: [], fist: [], pinch: [], reach: [] });
+
+  useEffect(() => {
+    if (phase !== 'countdown' && phase !== 'recording') return;
+    const { key, seconds } = STEPS[step];
+    const duration = (phase === 'countdown' ? COUNTDOWN_SECONDS : seconds) * 1000;
+    const start = performance.now();
+    let lastLandmarks: Landmark[][] | null = null;
+    let animationFrameId: number;
+
+    const tick = () => {
+      const elapsed = performance.now() - start;
+      // Every new detection frame contributes all of its hands
+      if (phase === 'recording' && manager.lastLandmarks !== lastLandmarks) {
+        lastLandmarks = manager.lastLandmarks;
+        samples.current[key].push(...lastLandmarks);
+      }
+      setProgress(Math.min(1, elapsed / duration));
+
+      if (elapsed < duration) {
+        animationFrameId = requestAnimationFrame(tick);
+      } else if (phase === 'countdown') {
+        samples.current[key] = [];
+        setPhase('recording');
+      } else if (samples.current[key].length < MIN_CALIBRATION_SAMPLES) {
+        setPhase('failed');
+      } else if (step < STEPS.length - 1) {
+        setStep(step + 1);
+        setPhase('countdown');
+      } else {
+        setPhase('done');
+      }
+    };
+    animationFrameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [manager, step, phase]);
+
+  const save = () => {
+    // The default profile's name stays reserved
+    const trimmed = name.trim();
+    const profile = fitCalibration(trimmed && trimmed !== DEFAULT_CALIBRATION.name ? trimmed : 'Calibration', samples.current);
+    saveCalibrations([...loadSavedCalibrations().filter((p) => p.name !== profile.name), profile]);
+    setCalibration(profile);
+    onClose();
+  };
+
+  const current = STEPS[step];
+
+  return (
+    <div className="rounded-lg border border-blue-500/30 bg-blue-500/10 p-2 space-y-2 text-[10px] text-white/80">
+      <div className="flex justify-between text-white/50">
+        <span>Calibration {Math.min(step + 1, STEPS.length)}/{STEPS.length}</span>
+        <button onClick={onClose} className="hover:text-white">Cancel</button>
+      </div>
+
+      {phase === 'done' ? (
+        <>
+          <div>✅ All poses captured. Name this profile:</div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full rounded bg-white/10 px-1 py-0.5 text-[10px] text-white outline-none focus:bg-white/20"
+          />
+          <button onClick={save} className="w-full rounded bg-blue-600 px-2 py-1 font-bold text-white hover:bg-blue-500">
+            Save & use
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="text-center text-2xl">{current.icon}</div>
+          <div className="text-center">{current.instruction}</div>
+          {phase === 'failed' ? (
+            <>
+              <div className="text-red-300">⚠️ No hands seen. Make sure both hands are in view.</div>
+              <button
+                onClick={() => setPhase('countdown')}
+                className="w-full rounded bg-white/10 px-2 py-1 font-bold text-white/70 hover:bg-white/20"
+              >
+                Retry
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="text-center text-white/50">{phase === 'countdown' ? 'Get ready…' : 'Hold it…'}</div>
+              <div className="h-1 rounded bg-white/10 overflow-hidden">
+                <div
+                  className={`h-full ${phase === 'countdown' ? 'bg-white/40' : 'bg-blue-500'}`}
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Picks the active calibration profile and starts the calibration wizard.
+ * The wizard needs live landmarks, so it lives with the camera source.
+ */
+const CalibrationPanel: React.FC<{ manager: InputManager; ready: boolean }> = ({ manager, ready }) => {
+  const { calibration, setCalibration } = useStore();
+  const [saved, setSaved] = useState(loadSavedCalibrations);
+  const [calibrating, setCalibrating] = useState(false);
+  const profiles: CalibrationProfile[] = [DEFAULT_CALIBRATION, ...saved];
+  const isSaved = saved.some((p) => p.name === calibration.name);
+
+  if (calibrating) {
+    return (
+      <CalibrationWizard
+        manager={manager}
+        onClose={() => {
+          setSaved(loadSavedCalibrations());
+          setCalibrating(false);
+        }}
+      />
+    );
+  }
+
+  const remove = () => {
+    const next = saved.filter((p) => p.name !== calibration.name);
+    saveCalibrations(next);
+    setSaved(next);
+    setCalibration(DEFAULT_CALIBRATION);
+  };
+
+  return (
+    <div className="flex gap-1">
+      <select
+        value={calibration.name}
+        onChange={(e) => setCalibration(profiles.find((p) => p.name === e.target.value) ?? DEFAULT_CALIBRATION)}
+        title="Calibration profile"
+        className="flex-1 min-w-0 rounded bg-white/10 px-1 py-0.5 text-[10px] text-white outline-none"
+      >
+        {profiles.map((profile) => (
+          <option key={profile.name} value={profile.name} className="bg-gray-900">{profile.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => setCalibrating(true)}
+        disabled={!ready}
+        className="rounded bg-white/10 px-2 py-0.5 text-[10px] font-bold text-white/70 hover:bg-white/20 disabled:opacity-40"
+      >
+        Calibrate
+      </button>
+      {isSaved && (
+        <button onClick={remove} className="rounded bg-white/10 px-2 py-0.5 text-[10px] text-white/60 hover:bg-red-500/30">
+          Delete
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../../store';
+import { InputManager } from '../../input/InputManager';
+import { InputSourceStatus } from '../../input/InputSource';
+import { getInputSource, InputSourceInstance } from '../../input/registry';
+import { createEmptyHandData } from '../../input/handData';
+import { HandState } from '../../types';
+
+const getGestureStyle = (gesture: string) => {
+  const styles: Record<string, { bg: string; text: string; glow: string; icon: string }> = {
+    'IDLE': { bg: 'bg-gray-600/80', text: 'text-gray-300', glow: '', icon: '✋' },
+    'CONTROL': { bg: 'bg-purple-600/90', text: 'text-purple-100', glow: 'shadow-lg shadow-purple-500/50', icon: '🎮' },
+    'EXPAND': { bg: 'bg-green-600/90', text: 'text-green-100', glow: 'shadow-lg shadow-green-500/50', icon: '💥' },
+    'COMPRESS': { bg: 'bg-orange-600/90', text: 'text-orange-100', glow: 'shadow-lg shadow-orange-500/50', icon: '✊' },
+    'CIRCLE': { bg: 'bg-blue-600/90', text: 'text-blue-100', glow: 'shadow-lg shadow-blue-500/50', icon: '🌍' },
+    'COLLAPSE': { bg: 'bg-red-600/90', text: 'text-red-100', glow: 'shadow-lg shadow-red-500/50 animate-pulse', icon: '💫' }
+  };
+  return styles[gesture] || styles['IDLE'];
+};
+
+interface HandBadges {
+  left: boolean;
+  right: boolean;
+  leftPinched: boolean;
+  rightPinched: boolean;
+  leftFist: boolean;
+  rightFist: boolean;
+  leftTrack: string; // Track id and handedness confidence, shown on hover
+  rightTrack: string;
+  ring: number; // Confidence, 0 without a ring
+}
+
+const trackInfo = (hand: HandState | null) =>
+  hand ? `Hand #${hand.trackId}, ${Math.round(hand.confidence * 100)}% sure of its side` : 'Not detected';
+
+const handBadge = (present: boolean, pinched: boolean, fist: boolean) => {
+  if (!present) return { className: 'bg-gray-700 text-gray-500', icon: '✋' };
+  if (fist) return { className: 'bg-purple-500 text-white', icon: '👊' };
+  if (pinched) return { className: 'bg-orange-500 text-white', icon: '✊' };
+  return { className: 'bg-green-500 text-white', icon: '✋' };
+};
+
+/**
+ * Runs the selected InputSource through an InputManager into `handDataRef`,
+ * and shows its status, hands and gesture around the source's own controls.
+ */
+const InputPanel: React.FC = () => {
+  const {
+    inputSource, setInputSource, setHandTrackingReady, setCameraError, handDataRef, gestureProfile, handFilter,
+    handFilterStatsRef, calibration, customGestures,
+  } = useStore();
+  const definition = getInputSource(inputSource);
+  const [active, setActive] = useState<{ id: string; instance: InputSourceInstance; manager: InputManager } | null>(null);
+  const [status, setStatus] = useState<InputSourceStatus>({ state: 'idle' });
+  const [currentGesture, setCurrentGesture] = useState<string>('IDLE');
+  const [customGesture, setCustomGesture] = useState<string | null>(null);
+  const [hands, setHands] = useState<HandBadges>({
+    left: false, right: false, leftPinched: false, rightPinched: false, leftFist: false, rightFist: false, leftTrack: '', rightTrack: '',
+    ring: 0,
+  });
+  const lastUIUpdate = useRef(0);
+
+  useEffect(() => {
+    if (!definition) return;
+
+    const manager = new InputManager({
+      onHandData: (data) => {
+        handDataRef.current = data;
+
+        // Throttled UI update
+        const time = performance.now();
+        if (time - lastUIUpdate.current > 100) {
+          setCurrentGesture(data.gesture);
+          setCustomGesture(data.customGesture);
+          setHands({
+            left: data.left !== null,
+            right: data.right !== null,
+            leftPinched: data.left?.isPinched ?? false,
+            rightPinched: data.right?.isPinched ?? false,
+            leftFist: data.left?.isFist ?? false,
+            rightFist: data.right?.isFist ?? false,
+            leftTrack: trackInfo(data.left),
+            rightTrack: trackInfo(data.right),
+            ring: data.ring?.confidence ?? 0,
+          });
+          lastUIUpdate.current = time;
+        }
+      },
+      // A custom gesture runs its action once as it starts
+      onCustomGesture: (name, data) => {
+        const { customGestures, runGestureAction } = useStore.getState();
+        const gesture = customGestures.find((g) => g.name === name);
+        if (gesture) runGestureAction(gesture.action, data);
+      },
+      onStatus: (next) => {
+        setStatus(next);
+        setHandTrackingReady(next.state === 'ready');
+        // E.g. without a working camera, fall back to mouse/touch input
+        if (next.state === 'error' && definition.fallback) {
+          setCameraError(next.message);
+          setInputSource(definition.fallback);
+        }
+      },
+    });
+    const instance = definition.create();
+    manager.use(instance.source);
+    setActive({ id: definition.id, instance, manager });
+    handFilterStatsRef.current = manager.filterStats;
+
+    return () => {
+      manager.dispose();
+      handDataRef.current = createEmptyHandData();
+      handFilterStatsRef.current = null;
+      setActive(null);
+    };
+  }, [definition, setInputSource, setHandTrackingReady, setCameraError, handDataRef, handFilterStatsRef]);
+
+  useEffect(() => {
+    active?.manager.setGestureProfile(gestureProfile);
+  }, [active, gestureProfile]);
+
+  useEffect(() => {
+    active?.manager.setHandFilter(handFilter);
+  }, [active, handFilter]);
+
+  useEffect(() => {
+    active?.manager.setCalibration(calibration);
+  }, [active, calibration]);
+
+  useEffect(() => {
+    active?.manager.setCustomGestures(customGestures);
+  }, [active, customGestures]);
+
+  // Until the effect has run, `active` may still hold the previous source
+  if (!definition || !active || active.id !== definition.id) return null;
+
+  const { Panel } = active.instance;
+  const gestureStyle = getGestureStyle(currentGesture);
+  const leftBadge = handBadge(hands.left, hands.leftPinched, hands.leftFist);
+  const rightBadge = handBadge(hands.right, hands.rightPinched, hands.rightFist);
+
+  return (
+    <div className="absolute bottom-4 left-4 z-50 w-60 rounded-xl overflow-hidden border-2 border-white/20 shadow-2xl bg-black/70 backdrop-blur-md">
+      {Panel && <Panel manager={active.manager} status={status} />}
+
+      <div className="p-2.5 space-y-2">
+        {status.state !== 'ready' && status.message && (
+          <div className={`text-[10px] rounded px-2 py-1 border ${
+            status.state === 'error'
+              ? 'text-red-300 bg-red-500/10 border-red-500/30'
+              : 'text-white/60 bg-white/5 border-white/10'
+          }`}>
+            {status.state === 'error' ? '⚠️ ' : status.state === 'loading' ? '⏳ ' : ''}{status.message}
+            {status.state === 'loading' && status.progress !== undefined && (
+              <div className="mt-1 h-1 rounded bg-white/10 overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${status.progress * 100}%` }} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Hands detected + pinch status */}
+        <div className="flex items-center justify-between text-[10px]">
+          <span className="text-white/60">{definition.label} hands:</span>
+          <div className="flex gap-2">
+            <div
+              title={hands.leftTrack}
+              className={`px-2 py-0.5 rounded-full text-[9px] font-bold transition-all duration-200 ${leftBadge.className}`}
+            >
+              L {leftBadge.icon}
+            </div>
+            <div
+              title={hands.rightTrack}
+              className={`px-2 py-0.5 rounded-full text-[9px] font-bold transition-all duration-200 ${rightBadge.className}`}
+            >
+              R {rightBadge.icon}
+            </div>
+          </div>
+        </div>
+
+        {/* Ring recognition confidence */}
+        <div className="flex items-center gap-2 text-[10px]">
+          <span className="text-white/60">Ring ◯</span>
+          <div className="flex-1 h-1 rounded bg-white/10 overflow-hidden">
+            <div className="h-full bg-yellow-400 transition-all duration-200" style={{ width: `${hands.ring * 100}%` }} />
+          </div>
+          <span className="w-7 text-right text-white/60">{Math.round(hands.ring * 100)}%</span>
+        </div>
+
+        {/* Current gesture display */}
+        <div className={`rounded-lg px-3 py-2 text-center transition-all duration-300 ${gestureStyle.bg} ${gestureStyle.glow}`}>
+          <span className={`text-sm font-bold tracking-wide ${gestureStyle.text}`}>
+            {gestureStyle.icon} {currentGesture}
+          </span>
+          {customGesture && <div className="text-[10px] text-white/80">✨ {customGesture}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InputPanel;
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { InputSourcePanelProps } from '../../input/registry';
+import { NetworkSource } from '../../input/sources/NetworkSource';
+
+const NetworkPanel: React.FC<InputSourcePanelProps<NetworkSource>> = ({ source }) => {
+  const [url, setUrl] = useState(source.url);
+
+  return (
+    <div className="px-2.5 pt-2.5 space-y-2">
+      <form
+        className="flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          source.url = url;
+          source.connect();
+        }}
+      >
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="flex-1 min-w-0 rounded bg-white/10 px-2 py-1 text-[10px] text-white outline-none focus:bg-white/20"
+        />
+        <button type="submit" className="rounded bg-blue-600 px-2 py-1 text-[10px] text-white hover:bg-blue-500">
+          Connect
+        </button>
+      </form>
+      <div className="text-[9px] text-white/50 leading-relaxed">
+        JSON per message: <code>{'{"landmarks": [[{x,y,z}×21], …]}'}</code> or <code>{'{"hands": {left, right}}'}</code>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkPanel;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useStore } from '../../store';
+import { InputSourcePanelProps } from '../../input/registry';
+import { GESTURE_KEYS } from '../../input/PointerHands';
+import { PointerSource } from '../../input/sources/PointerSource';
+
+const PointerPanel: React.FC<InputSourcePanelProps<PointerSource>> = () => {
+  const cameraError = useStore((state) => state.cameraError);
+
+  return (
+    <div className="px-2.5 pt-2.5 space-y-2">
+      {cameraError && (
+        <div className="text-[10px] text-red-300 bg-red-500/10 border border-red-500/30 rounded px-2 py-1">
+          ⚠️ {cameraError} Using mouse / touch input.
+        </div>
+      )}
+
+      <div className="text-[9px] text-white/50 leading-relaxed space-y-0.5">
+        <div>🖱️ Left / right button → pinch that hand</div>
+        <div>🖱️ Hold middle button → two fists (god mode)</div>
+        <div>🛞 Wheel → hand distance (in: ring, scroll in fast: collapse)</div>
+        <div>👆 One finger → pull • two fingers → two hands</div>
+        <div>
+          ⌨️ {Object.entries(GESTURE_KEYS).map(([key, gesture]) => `${key.toUpperCase()} ${gesture.toLowerCase()}`).join(' • ')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PointerPanel;
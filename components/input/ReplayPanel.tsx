@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { InputSourcePanelProps } from '../../input/registry';
+import { ReplaySource } from '../../input/sources/ReplaySource';
+import { parseRecording } from '../../input/recording';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const formatTime = (ms: number) => {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/** Load, play/pause, seek and speed controls for a recorded session. */
+const ReplayPanel: React.FC<InputSourcePanelProps<ReplaySource>> = ({ source }) => {
+  const [fileName, setFileName] = useState(source.fileName);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(source.time);
+  const [paused, setPaused] = useState(source.paused);
+  const [speed, setSpeed] = useState(source.speed);
+
+  // Follow playback, throttled like the other input UI
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setPosition(source.time);
+      setPaused(source.paused);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [source]);
+
+  const loadFile = async (file: File) => {
+    try {
+      source.load(parseRecording(await file.text()), file.name);
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load recording:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recording.');
+    }
+  };
+
+  const togglePlay = () => {
+    if (source.paused) source.play();
+    else source.pause();
+    setPaused(source.paused);
+  };
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    source.speed = value;
+  };
+
+  const seek = (time: number) => {
+    source.seek(time);
+    setPosition(source.time);
+  };
+
+  return (
+    <div className="px-2.5 pt-2.5 space-y-2">
+      <label className="block w-full cursor-pointer rounded px-2 py-1 text-center text-[10px] font-bold bg-white/10 text-white/70 hover:bg-white/20">
+        {fileName ?? 'Load recording (.json)'}
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {error && (
+        <div className="text-[10px] text-red-300 bg-red-500/10 border border-red-500/30 rounded px-2 py-1">
+          ⚠️ {error}
+        </div>
+      )}
+
+      {source.loaded && (
+        <>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={togglePlay}
+              className="w-8 rounded bg-blue-600 px-2 py-1 text-xs text-white hover:bg-blue-500"
+            >
+              {paused ? '▶' : '❚❚'}
+            </button>
+            <input
+              type="range" min="0" max={source.duration} step="1"
+              value={position}
+              onChange={(e) => seek(parseFloat(e.target.value))}
+              className="flex-1 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
+            />
+          </div>
+          <div className="flex items-center justify-between text-[10px] text-white/60">
+            <span>{formatTime(position)} / {formatTime(source.duration)}</span>
+            <div className="flex gap-1">
+              {SPEEDS.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => changeSpeed(value)}
+                  className={`px-1.5 rounded ${speed === value ? 'bg-blue-600 text-white' : 'bg-white/5 hover:bg-white/10'}`}
+                >
+                  {value}×
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="text-[9px] text-white/50 leading-relaxed">
+        Record a session from the camera panel, then replay it here through the same gesture pipeline.
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPanel;
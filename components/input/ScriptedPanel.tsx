@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { InputSourcePanelProps } from '../../input/registry';
+import { ScriptedSource } from '../../input/sources/ScriptedSource';
+
+const ScriptedPanel: React.FC<InputSourcePanelProps<ScriptedSource>> = ({ source }) => {
+  const [time, setTime] = useState(0);
+  const [speed, setSpeed] = useState(source.speed);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTime(source.time), 100);
+    return () => clearInterval(interval);
+  }, [source]);
+
+  return (
+    <div className="px-2.5 pt-2.5 space-y-2">
+      <div className="h-1 rounded bg-white/10 overflow-hidden">
+        <div className="h-full bg-blue-500" style={{ width: `${(time / source.duration) * 100}%` }} />
+      </div>
+      <div className="flex items-center justify-between text-[10px] text-white/60">
+        <span>Speed: {speed.toFixed(1)}×</span>
+        <input
+          type="range" min="0.25" max="2" step="0.25"
+          value={speed}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            source.speed = value;
+            setSpeed(value);
+          }}
+          className="w-24 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:rounded-full"
+        />
+      </div>
+      <div className="text-[9px] text-white/50 leading-relaxed">
+        Scripted demo: compress, expand, hold a ring for a planet, collapse, then a two-fist grab.
+      </div>
+    </div>
+  );
+};
+
+export default ScriptedPanel;
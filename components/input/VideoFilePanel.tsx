@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { InputSourcePanelProps } from '../../input/registry';
+import { VideoFileSource } from '../../input/sources/VideoFileSource';
+import { RecordButton, VideoPreview } from './WebcamPanel';
+
+const VideoFilePanel: React.FC<InputSourcePanelProps<VideoFileSource>> = ({ source, manager, status }) => {
+  const [fileName, setFileName] = useState(source.fileName);
+
+  return (
+    <>
+      <VideoPreview source={source} manager={manager} error={status.state === 'error' ? status.message : undefined} />
+      <div className="px-2.5 pt-2.5 space-y-2">
+        <label className="block w-full cursor-pointer rounded px-2 py-1 text-center text-[10px] font-bold bg-white/10 text-white/70 hover:bg-white/20 truncate">
+          {fileName ?? 'Load video (.mp4, .webm)'}
+          <input
+            type="file"
+            accept="video/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                source.load(file);
+                setFileName(file.name);
+              }
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {fileName && <RecordButton manager={manager} />}
+      </div>
+    </>
+  );
+};
+
+export default VideoFilePanel;
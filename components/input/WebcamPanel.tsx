@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputSourcePanelProps } from '../../input/registry';
+import { MediaPipeVideoSource } from '../../input/sources/MediaPipeVideoSource';
+import { InputManager } from '../../input/InputManager';
+import { downloadRecording } from '../../input/recording';
+import CalibrationPanel from './CalibrationPanel';
+
+/**
+ * Mirrored preview of a MediaPipe source's video with the tracked fingertips
+ * and palm drawn on top. Shared by the webcam and video file panels.
+ */
+export const VideoPreview: React.FC<{ source: MediaPipeVideoSource; manager: InputManager; error?: string }> = ({
+  source,
+  manager,
+  error,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const video = source.video;
+    video.className = 'w-full h-auto opacity-90 scale-x-[-1]';
+    containerRef.current?.prepend(video);
+    let animationFrameId: number;
+
+    const drawLandmarks = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+        for (const landmarks of manager.lastLandmarks) {
+          // Draw finger tips
+          const tipIndices = [4, 8, 12, 16, 20];
+          tipIndices.forEach(idx => {
+            const lm = landmarks[idx];
+            ctx.beginPath();
+            ctx.arc(lm.x * canvas.width, lm.y * canvas.height, 6, 0, 2 * Math.PI);
+            ctx.fillStyle = 'rgba(0, 255, 200, 0.9)';
+            ctx.fill();
+          });
+
+          // Draw palm center
+          const palm = landmarks[9];
+          ctx.beginPath();
+          ctx.arc(palm.x * canvas.width, palm.y * canvas.height, 10, 0, 2 * Math.PI);
+          ctx.fillStyle = 'rgba(255, 100, 255, 0.8)';
+          ctx.fill();
+
+          // Draw thumb tip specially (pinch reference)
+          const thumb = landmarks[4];
+          ctx.beginPath();
+          ctx.arc(thumb.x * canvas.width, thumb.y * canvas.height, 8, 0, 2 * Math.PI);
+          ctx.fillStyle = 'rgba(255, 200, 0, 0.9)';
+          ctx.fill();
+        }
+      }
+      animationFrameId = requestAnimationFrame(drawLandmarks);
+    };
+    drawLandmarks();
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      video.remove();
+    };
+  }, [source, manager]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full scale-x-[-1] pointer-events-none"
+      />
+
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/90 text-red-400 text-xs p-3 text-center">
+          <div>
+            <div className="text-red-500 text-lg mb-1">⚠️</div>
+            {error}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Records raw landmarks + HandData for replay
+export const RecordButton: React.FC<{ manager: InputManager }> = ({ manager }) => {
+  const [isRecording, setIsRecording] = useState(manager.recorder.recording);
+
+  const toggleRecording = () => {
+    if (manager.recorder.recording) {
+      downloadRecording(manager.recorder.stop());
+      setIsRecording(false);
+    } else {
+      manager.recorder.start(performance.now());
+      setIsRecording(true);
+    }
+  };
+
+  return (
+    <button
+      onClick={toggleRecording}
+      className={`w-full rounded px-2 py-1 text-[10px] font-bold transition-colors ${
+        isRecording ? 'bg-red-600 text-white animate-pulse' : 'bg-white/10 text-white/70 hover:bg-white/20'
+      }`}
+    >
+      {isRecording ? '■ Stop & download recording' : '● Record session'}
+    </button>
+  );
+};
+
+const WebcamPanel: React.FC<InputSourcePanelProps<MediaPipeVideoSource>> = ({ source, manager, status }) => (
+  <>
+    <VideoPreview source={source} manager={manager} error={status.state === 'error' ? status.message : undefined} />
+    <div className="px-2.5 pt-2.5 space-y-2">
+      <RecordButton manager={manager} />
+      <CalibrationPanel manager={manager} ready={status.state === 'ready'} />
+
+      {/* Gesture hints */}
+      <div className="text-[9px] text-white/50 leading-relaxed space-y-0.5">
+        <div>✊ Pinch fingers → Compress</div>
+        <div>✋ Open hand → Scatter/Expand</div>
+        <div>☝️ Fingertips → Comb particles aside (pinched: gather them)</div>
+        <div>👌 OK sign or thumbs + index fingers joined in a ring → Planet (ring size = planet size)</div>
+        <div>👏 Bring hands together fast → Explode</div>
+        <div>👊👊 Two fists → Grab & turn the universe</div>
+      </div>
+    </div>
+  </>
+);
+
+export default WebcamPanel;
@@ -0,0 +1,21 @@
+import { registerInputSource } from '../../input/registry';
+import { WebcamSource } from '../../input/sources/WebcamSource';
+import { PointerSource } from '../../input/sources/PointerSource';
+import { ReplaySource } from '../../input/sources/ReplaySource';
+import { VideoFileSource } from '../../input/sources/VideoFileSource';
+import { ScriptedSource } from '../../input/sources/ScriptedSource';
+import { NetworkSource } from '../../input/sources/NetworkSource';
+import WebcamPanel from './WebcamPanel';
+import PointerPanel from './PointerPanel';
+import ReplayPanel from './ReplayPanel';
+import VideoFilePanel from './VideoFilePanel';
+import ScriptedPanel from './ScriptedPanel';
+import NetworkPanel from './NetworkPanel';
+
+// The input sources offered in the UI, in display order
+registerInputSource({ id: 'webcam', label: 'Camera', create: () => new WebcamSource(), panel: WebcamPanel, fallback: 'pointer' });
+registerInputSource({ id: 'pointer', label: 'Mouse', create: () => new PointerSource(), panel: PointerPanel });
+registerInputSource({ id: 'replay', label: 'Replay', create: () => new ReplaySource(), panel: ReplayPanel });
+registerInputSource({ id: 'video', label: 'Video', create: () => new VideoFileSource(), panel: VideoFilePanel });
+registerInputSource({ id: 'scripted', label: 'Demo', create: () => new ScriptedSource(), panel: ScriptedPanel });
+registerInputSource({ id: 'network', label: 'Network', create: () => new NetworkSource(), panel: NetworkPanel });
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { HandData, HandState } from '../types';
+import { createEmptyHandData, measureHands } from './handData';
+import { GestureMachine } from './GestureMachine';
+
+const hand = (x: number): HandState => ({
+  x, y: 0, z: 0, isOpen: true, isPinched: false, isFist: false, trackId: 1, confidence: 1, landmarks: null,
+  velocity: { x: 0, y: 0, z: 0 }, acceleration: { x: 0, y: 0, z: 0 },
+});
+
+// Two hands brought together fast: COLLAPSE in the default profile
+const clap = (): HandData => {
+  const data = createEmptyHandData();
+  data.left = hand(-1);
+  data.right = hand(1);
+  measureHands(data);
+  data.closingSpeed = 20;
+  return data;
+};
+
+describe('GestureMachine', () => {
+  it('keeps the COLLAPSE cooldown across a tracking dropout', () => {
+    const machine = new GestureMachine();
+    expect(machine.update(clap(), 0)).toBe('COLLAPSE');
+    machine.reset();
+    expect(machine.update(clap(), 100)).toBe('IDLE');
+    expect(machine.update(clap(), 1600)).toBe('COLLAPSE');
+  });
+
+  it('goes straight to CONTROL on a two-fist grab', () => {
+    const machine = new GestureMachine();
+    const fists = clap();
+    fists.closingSpeed = 0;
+    for (const side of [fists.left!, fists.right!]) {
+      side.isOpen = false;
+      side.isPinched = true;
+      side.isFist = true;
+    }
+    for (let time = 0; time < 200; time += 33) expect(machine.update(fists, time)).toBe('IDLE');
+    expect(machine.update(fists, 231)).toBe('CONTROL');
+  });
+
+  it('drops cooldowns when time starts over', () => {
+    const machine = new GestureMachine();
+    expect(machine.update(clap(), 1000)).toBe('COLLAPSE');
+    machine.reset();
+    machine.clearCooldowns();
+    expect(machine.update(clap(), 0)).toBe('COLLAPSE');
+  });
+});
@@ -0,0 +1,144 @@
+import { HandData } from '../types';
+import {
+  DEFAULT_GESTURE_PROFILE,
+  GestureDefinition,
+  GestureFeatures,
+  GestureName,
+  GestureProfile,
+  testCondition,
+} from './gestureProfile';
+
+interface DefinitionState {
+  enterSince: number | null; // When the enter conditions started holding
+  exitSince: number | null; // When the exit conditions started holding (while active)
+  cooldownUntil: number;
+}
+
+/**
+ * Runs a GestureProfile: measures hand features each frame and moves between
+ * the profile's gestures (IDLE when none is active). Times are in ms.
+ */
+export class GestureMachine {
+  // Refilled every frame
+  private readonly features: GestureFeatures = {
+    hands: 0, pinched: 0, fists: 0, open: 0, distance: 0, closingSpeed: 0, ring: 0, sinceRelease: Infinity,
+  };
+
+  private profile: GestureProfile;
+  private readonly states = new Map<GestureName, DefinitionState>();
+  private active: GestureDefinition | null = null;
+  private lastPinched = 0;
+  private pinchHadFist = false; // Opening a fist isn't a pinch release
+  private releaseTime = -Infinity;
+
+  constructor(profile: GestureProfile = DEFAULT_GESTURE_PROFILE) {
+    this.profile = profile;
+  }
+
+  // Takes effect on the next frame; timers of unchanged gestures carry over
+  setProfile(profile: GestureProfile) {
+    this.profile = profile;
+    if (this.active) {
+      const gesture = this.active.gesture;
+      this.active = profile.definitions.find((d) => d.gesture === gesture && d.enabled) ?? null;
+    }
+  }
+
+  update(data: HandData, time: number): HandData['gesture'] {
+    const features = this.measure(data, time);
+    const definitions = this.profile.definitions.filter((d) => d.enabled);
+
+    for (const definition of definitions) {
+      const state = this.state(definition.gesture);
+      const entering = definition.enter.every((condition) => testCondition(condition, features));
+      state.enterSince = entering ? state.enterSince ?? time : null;
+    }
+
+    // Leave the active gesture once its exit has held long enough
+    if (this.active) {
+      const active = this.active;
+      const state = this.state(active.gesture);
+      const exiting = active.exit
+        ? active.exit.some((condition) => testCondition(condition, features))
+        : state.enterSince === null;
+      if (!exiting) {
+        state.exitSince = null;
+      } else {
+        state.exitSince = state.exitSince ?? time;
+        if (time - state.exitSince >= active.exitHoldMs) this.end();
+      }
+    }
+
+    // Start the best ready gesture, preempting a lower-priority active one
+    let best: GestureDefinition | null = null;
+    for (const definition of definitions) {
+      if (definition === this.active) continue;
+      const state = this.state(definition.gesture);
+      const ready = state.enterSince !== null && time - state.enterSince >= definition.holdMs && time >= state.cooldownUntil;
+      if (ready && (!best || definition.priority > best.priority)) best = definition;
+    }
+    if (best && (!this.active || best.priority > this.active.priority)) {
+      if (this.active) this.end();
+      const state = this.state(best.gesture);
+      state.exitSince = null;
+      state.cooldownUntil = time + best.cooldownMs;
+      this.active = best;
+    }
+
+    return this.active?.gesture ?? 'IDLE';
+  }
+
+  // Forgets the hands (e.g. after a tracking dropout). Cooldowns are about
+  // time, not hand continuity, so they still run.
+  reset() {
+    this.active = null;
+    for (const state of this.states.values()) {
+      state.enterSince = null;
+      state.exitSince = null;
+    }
+    this.lastPinched = 0;
+    this.pinchHadFist = false;
+    this.releaseTime = -Infinity;
+  }
+
+  // For when time itself starts over, e.g. a new source or a replay seek
+  clearCooldowns() {
+    for (const state of this.states.values()) state.cooldownUntil = -Infinity;
+  }
+
+  private end() {
+    if (!this.active) return;
+    this.state(this.active.gesture).exitSince = null;
+    this.active = null;
+  }
+
+  private state(gesture: GestureName): DefinitionState {
+    let state = this.states.get(gesture);
+    if (!state) {
+      state = { enterSince: null, exitSince: null, cooldownUntil: -Infinity };
+      this.states.set(gesture, state);
+    }
+    return state;
+  }
+
+  private measure(data: HandData, time: number): GestureFeatures {
+    const f = this.features;
+    const hands = [data.left, data.right].filter((hand) => hand !== null);
+    f.hands = hands.length;
+    f.pinched = hands.filter((hand) => hand.isPinched).length;
+    f.fists = hands.filter((hand) => hand.isFist).length;
+    f.open = hands.filter((hand) => hand.isOpen).length;
+    f.distance = hands.length === 2 ? data.distance : 0;
+    f.closingSpeed = hands.length === 2 ? data.closingSpeed : 0;
+    f.ring = data.ring?.confidence ?? 0;
+
+    if (f.pinched > 0 && f.fists > 0) this.pinchHadFist = true;
+    if (this.lastPinched > 0 && f.pinched === 0) {
+      if (!this.pinchHadFist) this.releaseTime = time;
+      this.pinchHadFist = false;
+    }
+    this.lastPinched = f.pinched;
+    f.sinceRelease = time - this.releaseTime;
+    return f;
+  }
+}
@@ -0,0 +1,128 @@
+import { RawHand } from './InputSource';
+import { OneEuroFilter, OneEuroParams } from './OneEuroFilter';
+
+export interface HandFilterSettings {
+  x: OneEuroParams;
+  y: OneEuroParams;
+  z: OneEuroParams; // MediaPipe depth is much noisier than x/y
+  predictionMs: number; // Extrapolate this far ahead to offset camera + inference latency
+  graceMs: number; // Keep a lost hand coasting this long before dropping it
+}
+
+export const DEFAULT_HAND_FILTER: HandFilterSettings = {
+  x: { minCutoff: 1.5, beta: 0.2, dCutoff: 1 },
+  y: { minCutoff: 1.5, beta: 0.2, dCutoff: 1 },
+  z: { minCutoff: 0.8, beta: 0.1, dCutoff: 1 },
+  predictionMs: 30,
+  graceMs: 150,
+};
+
+export interface HandFilterStats {
+  jitter: number; // Frame-to-frame wobble of the output (units)
+  lag: number; // How far the output trails the raw hand while moving (ms, negative = ahead)
+}
+
+// Below this speed (units/s) the lag can't be measured
+const LAG_MIN_SPEED = 2;
+// Weight of the newest frame in the stats' running averages
+const STATS_SMOOTHING = 0.1;
+
+type Vec3 = { x: number; y: number; z: number };
+
+/**
+ * Filters one hand's palm position: a One Euro filter per axis plus
+ * short-horizon prediction from the filtered velocity. When the hand drops out
+ * it can coast along that velocity for `graceMs`, so a single missed detection
+ * doesn't reset everything downstream. Also measures its own jitter and lag.
+ */
+export class HandFilter {
+  readonly stats: HandFilterStats = { jitter: 0, lag: 0 };
+  private readonly axes: Record<'x' | 'y' | 'z', OneEuroFilter>;
+  private settings: HandFilterSettings;
+  private last: RawHand | null = null; // Last output
+  private lastTime = 0;
+  private lastStep: Vec3 | null = null;
+
+  constructor(settings: HandFilterSettings = DEFAULT_HAND_FILTER) {
+    this.settings = settings;
+    this.axes = {
+      x: new OneEuroFilter(settings.x),
+      y: new OneEuroFilter(settings.y),
+      z: new OneEuroFilter(settings.z),
+    };
+  }
+
+  // Takes effect on the next sample without losing the filter state
+  configure(settings: HandFilterSettings) {
+    this.settings = settings;
+    this.axes.x.params = settings.x;
+    this.axes.y.params = settings.y;
+    this.axes.z.params = settings.z;
+  }
+
+  add(hand: RawHand, time: number): RawHand {
+    const { x, y, z } = this.axes;
+    const lead = this.settings.predictionMs / 1000;
+    const out: RawHand = {
+      ...hand,
+      x: x.filter(hand.x, time) + x.derivative * lead,
+      y: y.filter(hand.y, time) + y.derivative * lead,
+      z: z.filter(hand.z, time) + z.derivative * lead,
+    };
+    this.measure(hand, out);
+    this.last = out;
+    this.lastTime = time;
+    return out;
+  }
+
+  // Track of the hand being filtered, null before the first sample
+  get trackId(): number | null {
+    return this.last ? this.last.trackId ?? 0 : null;
+  }
+
+  // The lost hand carried along its last velocity, or null once the grace period is over
+  coast(time: number): RawHand | null {
+    const last = this.last;
+    if (!last || time - this.lastTime > this.settings.graceMs) return null;
+    const elapsed = (time - this.lastTime) / 1000;
+    return {
+      ...last,
+      x: last.x + this.axes.x.derivative * elapsed,
+      y: last.y + this.axes.y.derivative * elapsed,
+      z: last.z + this.axes.z.derivative * elapsed,
+    };
+  }
+
+  reset() {
+    this.axes.x.reset();
+    this.axes.y.reset();
+    this.axes.z.reset();
+    this.last = null;
+    this.lastStep = null;
+    this.stats.jitter = 0;
+    this.stats.lag = 0;
+  }
+
+  private measure(raw: Vec3, out: Vec3) {
+    const stats = this.stats;
+    if (this.last) {
+      // Jitter: change in the output's per-frame step, which is ~0 for smooth motion
+      const step = { x: out.x - this.last.x, y: out.y - this.last.y, z: out.z - this.last.z };
+      if (this.lastStep) {
+        const wobble = Math.hypot(step.x - this.lastStep.x, step.y - this.lastStep.y, step.z - this.lastStep.z);
+        stats.jitter += (wobble - stats.jitter) * STATS_SMOOTHING;
+      }
+      this.lastStep = step;
+    }
+
+    // Lag: distance behind the raw hand along the direction of motion, in time
+    const vx = this.axes.x.derivative;
+    const vy = this.axes.y.derivative;
+    const vz = this.axes.z.derivative;
+    const speed = Math.hypot(vx, vy, vz);
+    if (speed > LAG_MIN_SPEED) {
+      const behind = ((raw.x - out.x) * vx + (raw.y - out.y) * vy + (raw.z - out.z) * vz) / speed;
+      stats.lag += ((behind / speed) * 1000 - stats.lag) * STATS_SMOOTHING;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+type Vec3 = { x: number; y: number; z: number };
+
+interface Sample extends Vec3 {
+  t: number; // ms
+}
+
+// Least-squares slope of each axis over the samples, per second
+const slope = (samples: Sample[], out: Vec3): Vec3 => {
+  const n = samples.length;
+  if (n < 2) {
+    out.x = out.y = out.z = 0;
+    return out;
+  }
+  let meanT = 0, meanX = 0, meanY = 0, meanZ = 0;
+  for (const s of samples) {
+    meanT += s.t; meanX += s.x; meanY += s.y; meanZ += s.z;
+  }
+  meanT /= n; meanX /= n; meanY /= n; meanZ /= n;
+
+  let varT = 0, covX = 0, covY = 0, covZ = 0;
+  for (const s of samples) {
+    const dt = s.t - meanT;
+    varT += dt * dt;
+    covX += dt * (s.x - meanX);
+    covY += dt * (s.y - meanY);
+    covZ += dt * (s.z - meanZ);
+  }
+  if (varT === 0) {
+    out.x = out.y = out.z = 0;
+    return out;
+  }
+  out.x = (covX / varT) * 1000;
+  out.y = (covY / varT) * 1000;
+  out.z = (covZ / varT) * 1000;
+  return out;
+};
+
+/**
+ * Velocity and acceleration of one hand from its timestamped positions: a
+ * line fit over the last `windowMs` of positions, and of velocities for the
+ * acceleration. Fitting over a window rather than differencing two frames
+ * keeps tracking jitter from turning into huge spikes.
+ */
+export class HandMotion {
+  readonly velocity: Vec3 = { x: 0, y: 0, z: 0 };
+  readonly acceleration: Vec3 = { x: 0, y: 0, z: 0 };
+  private readonly positions: Sample[] = [];
+  private readonly velocities: Sample[] = [];
+
+  constructor(private readonly windowMs = 100) {}
+
+  add(time: number, position: Vec3) {
+    this.push(this.positions, time, position);
+    slope(this.positions, this.velocity);
+    this.push(this.velocities, time, this.velocity);
+    slope(this.velocities, this.acceleration);
+  }
+
+  reset() {
+    this.positions.length = 0;
+    this.velocities.length = 0;
+    this.velocity.x = this.velocity.y = this.velocity.z = 0;
+    this.acceleration.x = this.acceleration.y = this.acceleration.z = 0;
+  }
+
+  private push(samples: Sample[], t: number, v: Vec3) {
+    samples.push({ t, x: v.x, y: v.y, z: v.z });
+    while (samples.length > 2 && t - samples[0].t > this.windowMs) samples.shift();
+  }
+}
@@ -0,0 +1,199 @@
+import { HandData, HandRing, HandState } from '../types';
+import { GestureMachine } from './GestureMachine';
+import { HandMotion } from './HandMotion';
+import { GestureProfile } from './gestureProfile';
+import { HandFilter, HandFilterSettings, HandFilterStats } from './HandFilter';
+import { createEmptyHandData, measureHands } from './handData';
+import { isHandFist, isHandOpen, isHandPinched, Landmark, LoopShape, measureHandsRing, measureOkRing } from './handPose';
+import { RawHand, RawHands } from './InputSource';
+import { CalibrationProfile, CameraMapping, cameraToWorld, DEFAULT_CALIBRATION, handToWorld } from './calibration';
+import { HandTracker, TrackedHand } from './HandTracker';
+import { CustomGesture, CustomGestureRecognizer } from './customGestures';
+import { Handedness } from './handPose';
+
+// Below this a loop doesn't count as a ring at all
+const MIN_RING_CONFIDENCE = 0.05;
+
+const landmarksToHand = (hand: TrackedHand | undefined, calibration: CalibrationProfile): RawHand | null => {
+  if (!hand) return null;
+  const { landmarks } = hand;
+  // Palm center (middle finger MCP)
+  return {
+    ...cameraToWorld(calibration.mapping, landmarks[9]),
+    trackId: hand.id,
+    confidence: hand.confidence,
+    landmarks: handToWorld(calibration.mapping, landmarks),
+    isOpen: isHandOpen(landmarks, calibration.thresholds),
+    isPinched: isHandPinched(landmarks, calibration.thresholds),
+    isFist: isHandFist(landmarks, calibration.thresholds),
+  };
+};
+
+// The joints are not filtered themselves: the raw skeleton is moved onto the
+// filtered (or coasting) palm, so it keeps its shape and stays with the hand
+const followPalm = (landmarks: { x: number; y: number; z: number }[], palm: { x: number; y: number; z: number }) => {
+  const dx = palm.x - landmarks[9].x;
+  const dy = palm.y - landmarks[9].y;
+  const dz = palm.z - landmarks[9].z;
+  return landmarks.map((point) => ({ x: point.x + dx, y: point.y + dy, z: point.z + dz }));
+};
+
+// How long a closing-speed peak is held, so it's still there once the hands
+// have slowed down right before touching
+const CLOSING_PEAK_MS = 300;
+
+const loopToRing = (kind: HandRing['kind'], loop: LoopShape, mapping: CameraMapping): HandRing => ({
+  kind,
+  confidence: loop.confidence,
+  ...cameraToWorld(mapping, loop),
+  // Normalized area to world area, then the equal-area circle
+  radius: Math.sqrt(Math.abs(loop.area * mapping.scaleX * mapping.scaleY) / Math.PI),
+});
+
+// The most ring-like pose among the detections: a two-hand loop or an OK sign
+const landmarksToRing = (hands: Landmark[][], mapping: CameraMapping): HandRing | null => {
+  const candidates = hands.slice(0, 2).map((landmarks) => loopToRing('ok', measureOkRing(landmarks), mapping));
+  if (hands.length >= 2) candidates.push(loopToRing('hands', measureHandsRing(hands[0], hands[1]), mapping));
+  const best = candidates.reduce<HandRing | null>((a, b) => (!a || b.confidence > a.confidence ? b : a), null);
+  return best && best.confidence >= MIN_RING_CONFIDENCE ? best : null;
+};
+
+// Landmark stage: place tracked detections (already assigned to a side) in world space
+export const landmarksToHands = (
+  hands: TrackedHand[],
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION
+): RawHands => ({
+  left: landmarksToHand(hands.find((hand) => hand.side === 'left'), calibration),
+  right: landmarksToHand(hands.find((hand) => hand.side === 'right'), calibration),
+  ring: landmarksToRing(hands.map((hand) => hand.landmarks), calibration.mapping),
+});
+
+/**
+ * The stages every input source goes through: landmarks -> tracked hands ->
+ * world hands and ring (for landmark sources), then palm filtering (with a
+ * short grace period for lost hands), motion estimation and gesture detection.
+ * Stateful (tracks, filters and gesture history), so a given sequence of
+ * frames always yields the same HandData whether it comes from the live
+ * camera or a replay.
+ */
+export class HandPipeline {
+  private readonly leftFilter = new HandFilter();
+  private readonly rightFilter = new HandFilter();
+  private readonly leftMotion = new HandMotion();
+  private readonly rightMotion = new HandMotion();
+  private closingPeaks: { time: number; speed: number }[] = [];
+  readonly gestures = new GestureMachine();
+  private readonly customGestures = new CustomGestureRecognizer();
+  private readonly tracker = new HandTracker();
+  private calibration = DEFAULT_CALIBRATION;
+
+  process(hands: Landmark[][] | undefined, time: number, handedness?: Handedness[]): HandData {
+    const tracked = this.tracker.update(hands ?? [], handedness, time, this.calibration.mapping.centerX);
+    return this.processHands(landmarksToHands(tracked, this.calibration), time);
+  }
+
+  processHands(hands: RawHands, time: number): HandData {
+    const data = createEmptyHandData();
+    data.left = this.track(hands.left, this.leftFilter, this.leftMotion, time);
+    data.right = this.track(hands.right, this.rightFilter, this.rightMotion, time);
+
+    if (!data.left && !data.right) {
+      // Tracks outlive this, so a hand coming back soon keeps its id and side
+      this.clear();
+      if (hands.gesture) data.gesture = hands.gesture;
+      return data;
+    }
+
+    // Calculate distance and center
+    measureHands(data);
+    data.ring = hands.ring ?? null;
+    data.closingSpeed = this.closingSpeed(data, time);
+
+    // Detect gesture (always, so the history stays current while a gesture is forced)
+    const detected = this.gestures.update(data, time);
+    data.gesture = hands.gesture ?? detected;
+    data.customGesture = this.customGestures.update(data, time);
+    return data;
+  }
+
+  setGestureProfile(profile: GestureProfile) {
+    this.gestures.setProfile(profile);
+  }
+
+  setCalibration(calibration: CalibrationProfile) {
+    this.calibration = calibration;
+  }
+
+  setCustomGestures(gestures: CustomGesture[]) {
+    this.customGestures.setGestures(gestures);
+  }
+
+  setFilterSettings(settings: HandFilterSettings) {
+    this.leftFilter.configure(settings);
+    this.rightFilter.configure(settings);
+  }
+
+  get filterStats(): { left: HandFilterStats; right: HandFilterStats } {
+    return { left: this.leftFilter.stats, right: this.rightFilter.stats };
+  }
+
+  reset() {
+    this.tracker.reset();
+    this.clear();
+    this.gestures.clearCooldowns();
+  }
+
+  private clear() {
+    this.leftFilter.reset();
+    this.rightFilter.reset();
+    this.leftMotion.reset();
+    this.rightMotion.reset();
+    this.closingPeaks = [];
+    this.gestures.reset();
+    this.customGestures.reset();
+  }
+
+  // Filter the palm (or coast a just-lost one), then estimate its motion from the result
+  private track(hand: RawHand | null, filter: HandFilter, motion: HandMotion, time: number): HandState | null {
+    // Another hand took over this side: don't blend it with the previous one's history
+    if (hand && filter.trackId !== null && (hand.trackId ?? 0) !== filter.trackId) {
+      filter.reset();
+      motion.reset();
+    }
+    const smoothed = hand ? filter.add(hand, time) : filter.coast(time);
+    if (!smoothed) {
+      filter.reset();
+      motion.reset();
+      return null;
+    }
+    motion.add(time, smoothed);
+    return {
+      ...smoothed,
+      trackId: smoothed.trackId ?? 0,
+      confidence: smoothed.confidence ?? 1,
+      landmarks: smoothed.landmarks ? followPalm(smoothed.landmarks, smoothed) : null,
+      velocity: { ...motion.velocity },
+      acceleration: { ...motion.acceleration },
+    };
+  }
+
+  // Rate at which the hands approach each other (the relative velocity along
+  // the line between them), as the peak over the last CLOSING_PEAK_MS
+  private closingSpeed(data: HandData, time: number): number {
+    const { left, right, distance } = data;
+    let speed = 0;
+    if (left && right && distance > 0) {
+      const dvx = right.velocity.x - left.velocity.x;
+      const dvy = right.velocity.y - left.velocity.y;
+      const dvz = right.velocity.z - left.velocity.z;
+      const dx = right.x - left.x;
+      const dy = right.y - left.y;
+      const dz = right.z - left.z;
+      speed = Math.max(0, -(dvx * dx + dvy * dy + dvz * dz) / distance);
+    }
+
+    this.closingPeaks = this.closingPeaks.filter((peak) => time - peak.time < CLOSING_PEAK_MS);
+    this.closingPeaks.push({ time, speed });
+    return Math.max(...this.closingPeaks.map((peak) => peak.speed));
+  }
+}
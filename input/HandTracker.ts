@@ -0,0 +1,145 @@
+import { Handedness, Landmark } from './handPose';
+
+export type HandSide = 'left' | 'right';
+
+// One detection after tracking: which persistent hand it is and which side it's on
+export interface TrackedHand {
+  id: number;
+  side: HandSide;
+  confidence: number; // MediaPipe's handedness score, 0.5 when unknown
+  landmarks: Landmark[];
+}
+
+interface Track {
+  id: number;
+  side: HandSide;
+  leftBelief: number; // Smoothed probability (0..1) that this is the user's left hand
+  x: number; // Palm center, normalized camera coordinates
+  y: number;
+  lastSeen: number;
+}
+
+// MediaPipe labels handedness as if the image were mirrored (selfie view). Camera
+// frames reach us unmirrored, so its "Right" is the user's left hand.
+const LEFT_HAND_LABEL = 'Right';
+
+// A detection this close (normalized) to a track continues it
+const MAX_TRACK_DISTANCE = 0.25;
+// Two detections this close are the same hand detected twice
+const DUPLICATE_DISTANCE = 0.04;
+// A track survives this long without detections, so a hand that flickers out keeps its id
+const TRACK_TIMEOUT_MS = 500;
+// Weight of the newest handedness score in a track's belief
+const BELIEF_SMOOTHING = 0.2;
+// The belief must cross these to flip a track's side, so noisy labels don't flicker it
+const SWITCH_TO_LEFT = 0.7;
+const SWITCH_TO_RIGHT = 0.3;
+
+const palm = (landmarks: Landmark[]) => landmarks[9];
+
+/**
+ * Keeps hand identity across frames: detections are matched to the previous
+ * frame's hands by proximity, so hands keep their id (and side) when they
+ * cross or briefly drop out. Sides come from MediaPipe's handedness, smoothed
+ * per track; without handedness (old recordings) the frame half decides.
+ * Two detections are never given the same side: duplicates of one hand are
+ * merged, and of two hands labeled alike the less certain one yields.
+ */
+export class HandTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  // `centerX` splits the frame into left/right when there's no handedness
+  update(hands: Landmark[][], handedness: Handedness[] | undefined, time: number, centerX = 0.5): TrackedHand[] {
+    this.tracks = this.tracks.filter((track) => time - track.lastSeen <= TRACK_TIMEOUT_MS);
+
+    const detections = this.dedupe(
+      hands.map((landmarks, i) => ({
+        landmarks,
+        known: !!handedness?.[i],
+        leftScore: this.leftScore(landmarks, handedness?.[i], centerX),
+      }))
+    );
+
+    // Greedy nearest-first matching of detections to existing tracks
+    const pairs: { detection: number; track: Track; distance: number }[] = [];
+    detections.forEach(({ landmarks }, detection) => {
+      for (const track of this.tracks) {
+        const distance = Math.hypot(palm(landmarks).x - track.x, palm(landmarks).y - track.y);
+        if (distance <= MAX_TRACK_DISTANCE) pairs.push({ detection, track, distance });
+      }
+    });
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    const matched = new Map<number, Track>();
+    const used = new Set<Track>();
+    for (const { detection, track } of pairs) {
+      if (matched.has(detection) || used.has(track)) continue;
+      matched.set(detection, track);
+      used.add(track);
+    }
+
+    const result: { track: Track; detection: (typeof detections)[number] }[] = detections.map((detection, i) => {
+      let track = matched.get(i);
+      if (!track) {
+        track = {
+          id: this.nextId++,
+          side: detection.leftScore >= 0.5 ? 'left' : 'right',
+          leftBelief: detection.leftScore,
+          x: 0,
+          y: 0,
+          lastSeen: time,
+        };
+        this.tracks.push(track);
+      } else {
+        track.leftBelief += (detection.leftScore - track.leftBelief) * BELIEF_SMOOTHING;
+        if (track.leftBelief > SWITCH_TO_LEFT) track.side = 'left';
+        else if (track.leftBelief < SWITCH_TO_RIGHT) track.side = 'right';
+      }
+      track.x = palm(detection.landmarks).x;
+      track.y = palm(detection.landmarks).y;
+      track.lastSeen = time;
+      return { track, detection };
+    });
+
+    // Two hands on one side: the one less sure of it (or, on a tie, the one
+    // farther toward the other side of the frame) switches
+    if (result.length === 2 && result[0].track.side === result[1].track.side) {
+      const [a, b] = [result[0].track, result[1].track];
+      const towardLeft = a.leftBelief !== b.leftBelief ? a.leftBelief - b.leftBelief : a.x - b.x;
+      const mostLeft = towardLeft >= 0 ? a : b;
+      if (a.side === 'left') (mostLeft === a ? b : a).side = 'right';
+      else mostLeft.side = 'left';
+    }
+
+    return result.map(({ track, detection }) => ({
+      id: track.id,
+      side: track.side,
+      confidence: !detection.known ? 0.5 : track.side === 'left' ? detection.leftScore : 1 - detection.leftScore,
+      landmarks: detection.landmarks,
+    }));
+  }
+
+  reset() {
+    this.tracks = [];
+  }
+
+  // Probability that a detection is the user's left hand
+  private leftScore(landmarks: Landmark[], handedness: Handedness | undefined, centerX: number): number {
+    if (!handedness) return palm(landmarks).x > centerX ? 0.6 : 0.4;
+    return handedness.label === LEFT_HAND_LABEL ? handedness.score : 1 - handedness.score;
+  }
+
+  // Overlapping detections of the same hand: keep the more certain one
+  private dedupe<T extends { landmarks: Landmark[]; leftScore: number }>(detections: T[]): T[] {
+    const certainty = (d: T) => Math.abs(d.leftScore - 0.5);
+    return detections.filter((d, i) =>
+      detections.every((other, j) => {
+        if (i === j) return true;
+        const distance = Math.hypot(palm(d.landmarks).x - palm(other.landmarks).x, palm(d.landmarks).y - palm(other.landmarks).y);
+        if (distance > DUPLICATE_DISTANCE) return true;
+        return certainty(d) > certainty(other) || (certainty(d) === certainty(other) && i < j);
+      })
+    );
+  }
+}
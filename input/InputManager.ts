@@ -0,0 +1,101 @@
+import { HandData } from '../types';
+import { HandPipeline } from './HandPipeline';
+import { InputFrame, InputSink, InputSource, InputSourceStatus } from './InputSource';
+import { HandRecorder } from './recording';
+import { Landmark } from './handPose';
+import { GestureProfile } from './gestureProfile';
+import { HandFilterSettings } from './HandFilter';
+import { CalibrationProfile } from './calibration';
+import { CustomGesture } from './customGestures';
+
+interface InputManagerCallbacks {
+  onHandData: (data: HandData) => void;
+  onStatus: (status: InputSourceStatus) => void;
+  // A custom gesture just started (not in catch-up frames, where it started before)
+  onCustomGesture?: (name: string, data: HandData) => void;
+}
+
+/**
+ * Runs one InputSource at a time and pushes its frames through the shared
+ * HandPipeline. Landmark frames can be recorded for later replay.
+ */
+export class InputManager {
+  readonly recorder = new HandRecorder();
+  // Last landmarks seen, for debug drawing (empty for non-landmark sources)
+  lastLandmarks: Landmark[][] = [];
+  lastHandData: HandData | null = null;
+  status: InputSourceStatus = { state: 'idle' };
+
+  private readonly pipeline = new HandPipeline();
+  private source: InputSource | null = null;
+  private readonly sink: InputSink;
+  private lastCustomGesture: string | null = null;
+
+  constructor(private readonly callbacks: InputManagerCallbacks) {
+    this.sink = {
+      frame: (frame) => this.handleFrame(frame),
+      status: (status) => {
+        this.status = status;
+        this.callbacks.onStatus(status);
+      },
+      reset: () => {
+        this.pipeline.reset();
+        this.lastCustomGesture = null;
+      },
+    };
+  }
+
+  use(source: InputSource | null) {
+    this.source?.stop();
+    // A recording never mixes frames from two sources
+    if (this.recorder.recording) this.recorder.stop();
+    this.pipeline.reset();
+    this.lastCustomGesture = null;
+    this.lastLandmarks = [];
+    this.source = source;
+    source?.start(this.sink);
+  }
+
+  setGestureProfile(profile: GestureProfile) {
+    this.pipeline.setGestureProfile(profile);
+  }
+
+  setCalibration(calibration: CalibrationProfile) {
+    this.pipeline.setCalibration(calibration);
+  }
+
+  setCustomGestures(gestures: CustomGesture[]) {
+    this.pipeline.setCustomGestures(gestures);
+  }
+
+  setHandFilter(settings: HandFilterSettings) {
+    this.pipeline.setFilterSettings(settings);
+  }
+
+  get filterStats() {
+    return this.pipeline.filterStats;
+  }
+
+  dispose() {
+    this.use(null);
+  }
+
+  private handleFrame(frame: InputFrame) {
+    let data: HandData;
+    if (frame.type === 'landmarks') {
+      data = this.pipeline.process(frame.hands, frame.time, frame.handedness);
+      this.lastLandmarks = frame.hands;
+      // Catch-up frames were already recorded (or skipped) the first time round
+      if (!frame.catchUp) this.recorder.add(frame.time, frame.hands, frame.handedness, data);
+    } else {
+      data = this.pipeline.processHands(frame.hands, frame.time);
+    }
+    this.lastHandData = data;
+    this.callbacks.onHandData(data);
+
+    if (data.customGesture && data.customGesture !== this.lastCustomGesture && !frame.catchUp) {
+      this.callbacks.onCustomGesture?.(data.customGesture, data);
+    }
+    this.lastCustomGesture = data.customGesture;
+  }
+}
@@ -0,0 +1,45 @@
+import { HandData, HandRing, HandState } from '../types';
+import { Handedness, Landmark } from './handPose';
+
+// Motion (velocity, acceleration) is estimated by the pipeline; sources without
+// tracking leave out trackId and confidence, sources without landmarks the joints
+export type RawHand = Omit<HandState, 'velocity' | 'acceleration' | 'trackId' | 'confidence' | 'landmarks'> &
+  Partial<Pick<HandState, 'trackId' | 'confidence' | 'landmarks'>>;
+
+// Hands already placed in world space, for sources that don't produce landmarks
+export interface RawHands {
+  left: RawHand | null;
+  right: RawHand | null;
+  ring?: HandRing | null; // Sources without landmarks may synthesize one
+  gesture?: HandData['gesture']; // Forces the gesture instead of detecting it
+}
+
+// What a source hands to the shared pipeline; `time` is in ms
+// `catchUp` marks history emitted again to rebuild the pipeline's state (e.g.
+// after a replay seek): it updates the hands, but nothing in it happens anew
+export type InputFrame = (
+  | { type: 'landmarks'; time: number; hands: Landmark[][]; handedness?: Handedness[] } // handedness[i] is for hands[i]
+  | { type: 'hands'; time: number; hands: RawHands }
+) & { catchUp?: boolean };
+
+export type InputSourceStatus =
+  | { state: 'idle'; message?: string } // Waiting for the user (e.g. pick a file)
+  | { state: 'loading'; message?: string; progress?: number } // progress: 0..1 when known
+  | { state: 'ready' }
+  | { state: 'error'; message: string };
+
+export interface InputSink {
+  frame(frame: InputFrame): void;
+  status(status: InputSourceStatus): void;
+  // Drop pipeline history (smoothing, gesture hysteresis), e.g. before a replay seek
+  reset(): void;
+}
+
+/**
+ * A provider of hand input. Sources only produce frames; smoothing and gesture
+ * detection happen in the shared HandPipeline run by the InputManager.
+ */
+export interface InputSource {
+  start(sink: InputSink): void;
+  stop(): void;
+}
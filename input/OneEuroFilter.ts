@@ -0,0 +1,49 @@
+export interface OneEuroParams {
+  minCutoff: number; // Hz; lower = smoother when still
+  beta: number; // Cutoff increase per unit/s of speed; higher = less lag when moving
+  dCutoff: number; // Hz; smoothing of the speed estimate itself
+}
+
+// Low-pass blend factor for a cutoff frequency at a given timestep (seconds)
+const alpha = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter (Casiez et al. 2012) for one scalar: a low-pass filter whose
+ * cutoff rises with speed, so a still hand is smoothed hard while a fast one
+ * is followed with little lag. Times are in ms.
+ */
+export class OneEuroFilter {
+  value = 0; // Last filtered value
+  derivative = 0; // Filtered rate of change, per second
+  private lastTime: number | null = null;
+
+  constructor(public params: OneEuroParams) {}
+
+  filter(x: number, time: number): number {
+    if (this.lastTime === null) {
+      this.value = x;
+      this.derivative = 0;
+      this.lastTime = time;
+      return x;
+    }
+    const dt = (time - this.lastTime) / 1000;
+    if (dt <= 0) return this.value;
+    this.lastTime = time;
+
+    const { minCutoff, beta, dCutoff } = this.params;
+    const dx = (x - this.value) / dt;
+    this.derivative += (dx - this.derivative) * alpha(dCutoff, dt);
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    this.value += (x - this.value) * alpha(cutoff, dt);
+    return this.value;
+  }
+
+  reset() {
+    this.lastTime = null;
+    this.value = 0;
+    this.derivative = 0;
+  }
+}
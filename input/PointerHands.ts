@@ -0,0 +1,151 @@
+import { HandData, HandRing } from '../types';
+import { RawHand, RawHands } from './InputSource';
+
+// Same world extents the uncalibrated camera mapping covers (see DEFAULT_CAMERA_MAPPING)
+const WORLD_WIDTH = 30;
+const WORLD_HEIGHT = 20;
+// Two open hands this far apart stand in for a ring (planet size follows the spread)
+const RING_MIN_DISTANCE = 5;
+const RING_MAX_DISTANCE = 18;
+// Default mouse hand spread sits just above the ring range, so hovering is IDLE
+export const DEFAULT_POINTER_DISTANCE = 20;
+const MIN_POINTER_DISTANCE = 1;
+const MAX_POINTER_DISTANCE = 30;
+
+// Held keys force a gesture, bypassing detection
+export const GESTURE_KEYS: Record<string, HandData['gesture']> = {
+  c: 'CIRCLE',
+  x: 'COLLAPSE',
+  e: 'EXPAND',
+  q: 'COMPRESS',
+  g: 'CONTROL',
+};
+
+interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Synthesizes hands from mouse, touch and keyboard input.
+ *
+ * Mouse: the cursor is the midpoint between two open hands; the left/right
+ * buttons pinch the left/right hand, the middle button closes both into fists
+ * and the wheel sets their distance.
+ * Touch: one finger is a single pinching hand, two fingers are two open hands.
+ * Two open hands within the ring range count as a ring between them.
+ * The hands go through the shared HandPipeline, so gestures like EXPAND on
+ * release behave as with the camera.
+ */
+export class PointerHands {
+  private cursor: TouchPoint | null = null;
+  private leftPinched = false;
+  private rightPinched = false;
+  private fists = false; // Middle button: both hands make fists
+  private distance = DEFAULT_POINTER_DISTANCE;
+  private readonly touches = new Map<number, TouchPoint>();
+  private readonly heldKeys: string[] = [];
+
+  // Screen position (normalized 0..1, y down) to world units
+  static toWorld(nx: number, ny: number): TouchPoint {
+    return { x: (nx - 0.5) * WORLD_WIDTH, y: (0.5 - ny) * WORLD_HEIGHT };
+  }
+
+  moveCursor(nx: number, ny: number) {
+    this.cursor = PointerHands.toWorld(nx, ny);
+  }
+
+  leave() {
+    this.cursor = null;
+    this.leftPinched = false;
+    this.rightPinched = false;
+    this.fists = false;
+  }
+
+  // The window lost focus: its key and button releases won't arrive, so
+  // nothing may stay held (the cursor stays where it was)
+  releaseAll() {
+    this.leftPinched = false;
+    this.rightPinched = false;
+    this.fists = false;
+    this.touches.clear();
+    this.heldKeys.length = 0;
+  }
+
+  // MouseEvent.button: 0 = left, 1 = middle, 2 = right
+  setButton(button: number, down: boolean) {
+    if (button === 0) this.leftPinched = down;
+    if (button === 1) this.fists = down;
+    if (button === 2) this.rightPinched = down;
+  }
+
+  // Positive wheel delta (scrolling down) pulls the hands together
+  wheel(deltaY: number) {
+    this.distance = Math.max(
+      MIN_POINTER_DISTANCE,
+      Math.min(MAX_POINTER_DISTANCE, this.distance - deltaY * 0.01)
+    );
+  }
+
+  setTouch(id: number, nx: number, ny: number) {
+    this.touches.set(id, PointerHands.toWorld(nx, ny));
+  }
+
+  endTouch(id: number) {
+    this.touches.delete(id);
+  }
+
+  // Returns true when the key is a gesture shortcut
+  setKey(key: string, down: boolean): boolean {
+    const k = key.toLowerCase();
+    if (!(k in GESTURE_KEYS)) return false;
+    const index = this.heldKeys.indexOf(k);
+    if (down && index < 0) this.heldKeys.push(k);
+    if (!down && index >= 0) this.heldKeys.splice(index, 1);
+    return true;
+  }
+
+  sample(): RawHands {
+    let left: RawHand | null = null;
+    let right: RawHand | null = null;
+
+    if (this.touches.size > 0) {
+      // Leftmost touch is the left hand
+      const points = [...this.touches.values()].sort((a, b) => a.x - b.x);
+      if (points.length === 1) {
+        right = this.hand(points[0], true);
+      } else {
+        left = this.hand(points[0], false);
+        right = this.hand(points[points.length - 1], false);
+      }
+    } else if (this.cursor) {
+      const half = this.distance / 2;
+      left = this.hand({ x: this.cursor.x - half, y: this.cursor.y }, this.leftPinched, this.fists);
+      right = this.hand({ x: this.cursor.x + half, y: this.cursor.y }, this.rightPinched, this.fists);
+    }
+
+    // Most recently pressed shortcut wins
+    const forced = this.heldKeys[this.heldKeys.length - 1];
+    return { left, right, ring: this.ring(left, right), gesture: forced ? GESTURE_KEYS[forced] : undefined };
+  }
+
+  private ring(left: RawHand | null, right: RawHand | null): HandRing | null {
+    if (!left?.isOpen || !right?.isOpen) return null;
+    const distance = Math.hypot(right.x - left.x, right.y - left.y);
+    if (distance < RING_MIN_DISTANCE || distance > RING_MAX_DISTANCE) return null;
+    return {
+      kind: 'hands',
+      confidence: 1,
+      x: (left.x + right.x) / 2,
+      y: (left.y + right.y) / 2,
+      z: 0,
+      radius: distance / 2,
+    };
+  }
+
+  private hand(point: TouchPoint, pinched: boolean, fist = false): RawHand {
+    // A fist also counts as a pinch, like the camera's classifiers
+    const closed = pinched || fist;
+    return { x: point.x, y: point.y, z: 0, isOpen: !closed, isPinched: closed, isFist: fist };
+  }
+}
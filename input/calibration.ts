@@ -0,0 +1,193 @@
+import { DEFAULT_POSE_THRESHOLDS, Landmark, measurePose, PoseThresholds } from './handPose';
+import { isFiniteNumber, isRecord } from './json';
+
+// Normalized camera coordinates to world units: world = (camera - center) * scale.
+// Negative scales mirror x like the preview and flip y/z to point up/toward the viewer.
+export interface CameraMapping {
+  centerX: number;
+  centerY: number;
+  centerZ: number;
+  scaleX: number;
+  scaleY: number;
+  scaleZ: number;
+}
+
+export interface CalibrationProfile {
+  name: string;
+  mapping: CameraMapping;
+  thresholds: PoseThresholds;
+}
+
+// World extents the whole camera frame covers without calibration; a
+// calibrated reach is stretched over the same extents
+const WORLD_WIDTH = 30;
+const WORLD_HEIGHT = 20;
+const DEPTH_SCALE = 10;
+
+export const DEFAULT_CAMERA_MAPPING: CameraMapping = {
+  centerX: 0.5,
+  centerY: 0.5,
+  centerZ: 0,
+  scaleX: -WORLD_WIDTH,
+  scaleY: -WORLD_HEIGHT,
+  scaleZ: -DEPTH_SCALE,
+};
+
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  name: 'Default',
+  mapping: DEFAULT_CAMERA_MAPPING,
+  thresholds: DEFAULT_POSE_THRESHOLDS,
+};
+
+export const cameraToWorld = (mapping: CameraMapping, point: Landmark) => ({
+  x: (point.x - mapping.centerX) * mapping.scaleX,
+  y: (point.y - mapping.centerY) * mapping.scaleY,
+  z: (point.z - mapping.centerZ) * mapping.scaleZ,
+});
+
+// All joints of a hand in world space. MediaPipe's z is on the same scale as x,
+// so depth around the palm gets the x scale to keep the hand's proportions.
+export const handToWorld = (mapping: CameraMapping, landmarks: Landmark[]) => {
+  const palm = landmarks[9];
+  const palmZ = cameraToWorld(mapping, palm).z;
+  const depthScale = -Math.abs(mapping.scaleX);
+  return landmarks.map((point) => ({
+    ...cameraToWorld(mapping, point),
+    z: palmZ + (point.z - palm.z) * depthScale,
+  }));
+};
+
+// Hands seen during each calibration step (one entry per hand per frame)
+export interface CalibrationSamples {
+  open: Landmark[][];
+  fist: Landmark[][];
+  pinch: Landmark[][];
+  reach: Landmark[][];
+}
+
+// Fewer samples than this in a step and the step's fit falls back to the default
+export const MIN_CALIBRATION_SAMPLES = 10;
+// A reach narrower than this (normalized) is more likely a mistake than a tiny user
+const MIN_REACH_SPAN = 0.15;
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+const median = (values: number[]) => quantile(values, 0.5);
+
+// Midway between what two poses measure, if they are apart in the expected order
+const between = (low: number[], high: number[], fallback: number) => {
+  if (low.length < MIN_CALIBRATION_SAMPLES || high.length < MIN_CALIBRATION_SAMPLES) return fallback;
+  const a = median(low);
+  const b = median(high);
+  return b > a ? (a + b) / 2 : fallback;
+};
+
+const fitThresholds = (samples: CalibrationSamples): PoseThresholds => {
+  const open = samples.open.map(measurePose);
+  const fist = samples.fist.map(measurePose);
+  const pinch = samples.pinch.map(measurePose);
+  const meanExtension = (extension: number[]) => extension.reduce((a, b) => a + b, 0) / extension.length;
+  const defaults = DEFAULT_POSE_THRESHOLDS;
+
+  return {
+    pinchSpread: between(fist.map((p) => p.spread), open.map((p) => p.spread), defaults.pinchSpread),
+    pinchTouch: between(pinch.map((p) => p.touch), open.map((p) => p.touch), defaults.pinchTouch),
+    openMargin: Math.max(
+      0,
+      between(fist.map((p) => meanExtension(p.extension)), open.map((p) => meanExtension(p.extension)), defaults.openMargin)
+    ),
+    thumbSpread: between(pinch.map((p) => p.thumb), open.map((p) => p.thumb), defaults.thumbSpread),
+    // The least curled finger decides; a pinch keeps the other fingers out
+    fistMargin: between(fist.map((p) => Math.max(...p.extension)), pinch.map((p) => Math.max(...p.extension)), defaults.fistMargin),
+  };
+};
+
+// Stretch the comfortable reach (palm positions, ignoring outliers) over the world extents
+const fitMapping = (reach: Landmark[][]): CameraMapping => {
+  if (reach.length < MIN_CALIBRATION_SAMPLES) return DEFAULT_CAMERA_MAPPING;
+  const palms = reach.map((landmarks) => landmarks[9]);
+  const xs = palms.map((p) => p.x);
+  const ys = palms.map((p) => p.y);
+  const minX = quantile(xs, 0.05), maxX = quantile(xs, 0.95);
+  const minY = quantile(ys, 0.05), maxY = quantile(ys, 0.95);
+  const spanX = maxX - minX;
+  const spanY = maxY - minY;
+
+  return {
+    centerX: spanX >= MIN_REACH_SPAN ? (minX + maxX) / 2 : DEFAULT_CAMERA_MAPPING.centerX,
+    centerY: spanY >= MIN_REACH_SPAN ? (minY + maxY) / 2 : DEFAULT_CAMERA_MAPPING.centerY,
+    centerZ: median(palms.map((p) => p.z)),
+    scaleX: spanX >= MIN_REACH_SPAN ? -WORLD_WIDTH / spanX : DEFAULT_CAMERA_MAPPING.scaleX,
+    scaleY: spanY >= MIN_REACH_SPAN ? -WORLD_HEIGHT / spanY : DEFAULT_CAMERA_MAPPING.scaleY,
+    scaleZ: DEFAULT_CAMERA_MAPPING.scaleZ,
+  };
+};
+
+export const fitCalibration = (name: string, samples: CalibrationSamples): CalibrationProfile => ({
+  name,
+  mapping: fitMapping(samples.reach),
+  thresholds: fitThresholds(samples),
+});
+
+const STORAGE_KEY = 'calibrationProfiles';
+const ACTIVE_KEY = 'activeCalibration';
+
+// An object with a finite number under each of `keys`
+const hasNumbers = <K extends string>(data: unknown, keys: K[]): data is Record<K, number> =>
+  isRecord(data) && keys.every((key) => isFiniteNumber(data[key]));
+
+const readCalibration = (data: unknown): CalibrationProfile | null => {
+  if (
+    !isRecord(data) ||
+    typeof data.name !== 'string' ||
+    !hasNumbers(data.mapping, Object.keys(DEFAULT_CAMERA_MAPPING) as (keyof CameraMapping)[]) ||
+    !hasNumbers(data.thresholds, Object.keys(DEFAULT_POSE_THRESHOLDS) as (keyof PoseThresholds)[])
+  ) {
+    return null;
+  }
+  return { name: data.name, mapping: data.mapping, thresholds: data.thresholds };
+};
+
+// Profiles saved by the calibration wizard; unreadable entries are skipped
+export const loadSavedCalibrations = (): CalibrationProfile[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((data) => {
+      const profile = readCalibration(data);
+      if (!profile) console.warn('Skipping saved calibration profile:', data);
+      return profile ? [profile] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveCalibrations = (profiles: CalibrationProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (err) {
+    // Storage unavailable or full; the profiles just won't persist
+    console.warn('Failed to save calibration profiles:', err);
+  }
+};
+
+// The profile in use when the app was last closed, or the default
+export const loadActiveCalibration = (): CalibrationProfile => {
+  try {
+    const name = localStorage.getItem(ACTIVE_KEY);
+    return loadSavedCalibrations().find((profile) => profile.name === name) ?? DEFAULT_CALIBRATION;
+  } catch {
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export const saveActiveCalibration = (profile: CalibrationProfile) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, profile.name);
+  } catch {
+    // Storage unavailable (private mode); the choice just won't persist
+  }
+};
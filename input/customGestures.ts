@@ -0,0 +1,275 @@
+import { HandData, HandState } from '../types';
+import { isFiniteNumber, isRecord } from './json';
+
+type Vec3 = { x: number; y: number; z: number };
+
+// What a recognized custom gesture does, once each time it starts
+export type GestureAction =
+  | { type: 'none' }
+  | { type: 'shape'; shape: string } // Template id
+  | { type: 'planet' }
+  | { type: 'explode' }
+  | { type: 'color'; color: string };
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction['type'], string> = {
+  none: 'Nothing',
+  shape: 'Switch template',
+  planet: 'Spawn a planet',
+  explode: 'Explode',
+  color: 'Change color',
+};
+
+// A user-trained pose of one hand (either one) or of both hands together
+export interface CustomGesture {
+  name: string;
+  hands: 1 | 2;
+  examples: number[][]; // Feature vectors, see handFeatures
+  action: GestureAction;
+}
+
+const JOINTS = 21;
+// Length of a feature vector by number of hands: joints, plus the palm offset for two
+export const FEATURE_LENGTH = { 1: JOINTS * 3, 2: JOINTS * 6 + 3 } as const;
+// The palm offset is 3 numbers next to 126 joint coordinates; weighted up so
+// where the hands are relative to each other counts about as much as one finger
+const OFFSET_WEIGHT = 4;
+
+// Oldest examples are dropped beyond this
+export const MAX_EXAMPLES = 60;
+// Nearest examples that vote
+const K = 3;
+// RMS distance (in hand sizes per coordinate) beyond which an example doesn't vote at all
+const MAX_MATCH_DISTANCE = 0.25;
+// A match must hold this long to start, a miss this long to end it
+const HOLD_MS = 150;
+const RELEASE_MS = 200;
+
+const handSize = (landmarks: Vec3[]) =>
+  Math.hypot(landmarks[9].x - landmarks[0].x, landmarks[9].y - landmarks[0].y, landmarks[9].z - landmarks[0].z) || 1;
+
+// Joints relative to the wrist in hand sizes, so the pose doesn't depend on
+// where the hand is or how far from the camera. Left hands are mirrored, so a
+// one-hand gesture trained with either hand is recognized with both.
+const handFeatures = (landmarks: Vec3[], mirror: boolean, out: number[]) => {
+  const wrist = landmarks[0];
+  const size = handSize(landmarks);
+  const sx = mirror ? -1 : 1;
+  for (const joint of landmarks) {
+    out.push((sx * (joint.x - wrist.x)) / size, (joint.y - wrist.y) / size, (joint.z - wrist.z) / size);
+  }
+};
+
+export const oneHandFeatures = (hand: HandState, side: 'left' | 'right'): number[] | null => {
+  if (!hand.landmarks) return null;
+  const out: number[] = [];
+  handFeatures(hand.landmarks, side === 'left', out);
+  return out;
+};
+
+export const twoHandFeatures = (left: HandState, right: HandState): number[] | null => {
+  if (!left.landmarks || !right.landmarks) return null;
+  const out: number[] = [];
+  handFeatures(left.landmarks, false, out);
+  handFeatures(right.landmarks, false, out);
+  const size = (handSize(left.landmarks) + handSize(right.landmarks)) / 2;
+  out.push(
+    ((right.x - left.x) / size) * OFFSET_WEIGHT,
+    ((right.y - left.y) / size) * OFFSET_WEIGHT,
+    ((right.z - left.z) / size) * OFFSET_WEIGHT
+  );
+  return out;
+};
+
+// Feature vectors for a gesture of `hands` hands in this frame: one per
+// visible hand for one-hand gestures, one for both hands together
+export const gestureFeatures = (data: HandData, hands: 1 | 2): number[][] => {
+  if (hands === 2) {
+    const both = data.left && data.right ? twoHandFeatures(data.left, data.right) : null;
+    return both ? [both] : [];
+  }
+  const left = data.left ? oneHandFeatures(data.left, 'left') : null;
+  const right = data.right ? oneHandFeatures(data.right, 'right') : null;
+  return [left, right].filter((features) => features !== null);
+};
+
+const rmsDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum / a.length);
+};
+
+interface Match {
+  name: string;
+  distance: number;
+}
+
+// k-nearest-neighbor vote among the gestures' examples. The winner needs a
+// majority of the k nearest, so an unfamiliar pose (far from everything) matches nothing.
+const classify = (features: number[], gestures: CustomGesture[]): Match | null => {
+  const neighbors: Match[] = [];
+  for (const gesture of gestures) {
+    for (const example of gesture.examples) {
+      if (example.length === features.length) neighbors.push({ name: gesture.name, distance: rmsDistance(features, example) });
+    }
+  }
+  neighbors.sort((a, b) => a.distance - b.distance);
+  const nearest = neighbors.slice(0, K);
+
+  const votes = new Map<string, Match & { count: number }>();
+  for (const neighbor of nearest) {
+    if (neighbor.distance > MAX_MATCH_DISTANCE) break;
+    const vote = votes.get(neighbor.name);
+    if (vote) vote.count++;
+    else votes.set(neighbor.name, { ...neighbor, count: 1 });
+  }
+  let best: (Match & { count: number }) | null = null;
+  for (const vote of votes.values()) {
+    if (!best || vote.count > best.count) best = vote;
+  }
+  return best && best.count * 2 > nearest.length ? { name: best.name, distance: best.distance } : null;
+};
+
+/**
+ * Recognizes the user's trained gestures live, alongside the built-in ones:
+ * each frame's hands are classified against the examples, and a match has to
+ * hold for a moment before it counts (and be gone for a moment to end).
+ * Times are in ms.
+ */
+export class CustomGestureRecognizer {
+  private gestures: CustomGesture[] = [];
+  private active: string | null = null;
+  private candidate: string | null = null;
+  private candidateSince = 0;
+  private lastMatch = -Infinity;
+
+  setGestures(gestures: CustomGesture[]) {
+    this.gestures = gestures;
+    if (this.active && !gestures.some((gesture) => gesture.name === this.active)) this.active = null;
+  }
+
+  // Name of the active custom gesture, or null
+  update(data: HandData, time: number): string | null {
+    const match = this.match(data);
+
+    if (match && match === this.active) {
+      this.lastMatch = time;
+    } else if (this.active && time - this.lastMatch >= RELEASE_MS) {
+      this.active = null;
+    }
+
+    if (match !== this.candidate) {
+      this.candidate = match;
+      this.candidateSince = time;
+    }
+    if (match && match !== this.active && time - this.candidateSince >= HOLD_MS) {
+      this.active = match;
+      this.lastMatch = time;
+    }
+    return this.active;
+  }
+
+  reset() {
+    this.active = null;
+    this.candidate = null;
+    this.lastMatch = -Infinity;
+  }
+
+  // Best match among two-hand and (per hand) one-hand gestures in this frame
+  private match(data: HandData): string | null {
+    let best: Match | null = null;
+    for (const hands of [1, 2] as const) {
+      const gestures = this.gestures.filter((gesture) => gesture.hands === hands && gesture.examples.length > 0);
+      if (gestures.length === 0) continue;
+      for (const features of gestureFeatures(data, hands)) {
+        const match = classify(features, gestures);
+        if (match && (!best || match.distance < best.distance)) best = match;
+      }
+    }
+    return best?.name ?? null;
+  }
+}
+
+export const CUSTOM_GESTURES_VERSION = 1;
+
+const parseAction = (data: unknown): GestureAction => {
+  if (isRecord(data)) {
+    switch (data.type) {
+      case 'none':
+      case 'planet':
+      case 'explode':
+        return { type: data.type };
+      case 'shape':
+        // Not checked against the registry: the template may be registered later (e.g. an import)
+        if (typeof data.shape === 'string' && data.shape) return { type: 'shape', shape: data.shape };
+        break;
+      case 'color':
+        if (typeof data.color === 'string' && /^#[0-9a-f]{6}$/i.test(data.color)) return { type: 'color', color: data.color };
+        break;
+    }
+  }
+  throw new Error(`Unknown gesture action ${JSON.stringify(data)}.`);
+};
+
+const isExample = (hands: 1 | 2) => (example: unknown): example is number[] =>
+  Array.isArray(example) && example.length === FEATURE_LENGTH[hands] && example.every(isFiniteNumber);
+
+// Throws with a readable message when the data isn't a gesture we can use
+const readCustomGesture = (data: unknown): CustomGesture => {
+  if (!isRecord(data) || typeof data.name !== 'string' || !data.name.trim()) {
+    throw new Error('Custom gesture without a name.');
+  }
+  const { name, hands, examples } = data;
+  if (hands !== 1 && hands !== 2) {
+    throw new Error(`${name}: hands must be 1 or 2.`);
+  }
+  if (!Array.isArray(examples) || !examples.every(isExample(hands))) {
+    throw new Error(`${name}: malformed examples.`);
+  }
+  return { name, hands, examples: examples.slice(-MAX_EXAMPLES), action: parseAction(data.action) };
+};
+
+export const serializeCustomGestures = (gestures: CustomGesture[]): string =>
+  JSON.stringify({ version: CUSTOM_GESTURES_VERSION, gestures });
+
+export const parseCustomGestures = (text: string): CustomGesture[] => {
+  const data: unknown = JSON.parse(text);
+  if (!isRecord(data) || !Array.isArray(data.gestures)) {
+    throw new Error('Not a custom gesture file: missing gestures.');
+  }
+  if (data.version !== CUSTOM_GESTURES_VERSION) {
+    throw new Error(`Unsupported custom gesture version ${data.version}.`);
+  }
+  return data.gestures.map(readCustomGesture);
+};
+
+const STORAGE_KEY = 'customGestures';
+
+// Gestures trained in the custom gesture panel; unreadable entries are skipped
+export const loadCustomGestures = (): CustomGesture[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((data: unknown) => {
+      try {
+        return [readCustomGesture(data)];
+      } catch (err) {
+        console.warn('Skipping saved custom gesture:', err);
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomGestures = (gestures: CustomGesture[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(gestures));
+  } catch (err) {
+    // Storage unavailable or full; the gestures just won't persist
+    console.warn('Failed to save custom gestures:', err);
+  }
+};
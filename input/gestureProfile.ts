@@ -0,0 +1,227 @@
+import { HandData } from '../types';
+import { isRecord } from './json';
+
+export type GestureName = Exclude<HandData['gesture'], 'IDLE'>;
+
+// Per-frame hand measurements gesture conditions can test
+export const GESTURE_FEATURES = {
+  hands: 'Hands visible (0–2)',
+  pinched: 'Pinching hands, fists included (0–2)',
+  fists: 'Closed fists (0–2)',
+  open: 'Open hands (0–2)',
+  distance: 'Distance between hands',
+  closingSpeed: 'Recent peak speed the hands approached each other at (units/s)',
+  ring: 'Confidence (0–1) of a thumb/index loop with both hands or an OK sign',
+  sinceRelease: 'ms since the last pinch (not fist) was released',
+} as const;
+
+export type GestureFeature = keyof typeof GESTURE_FEATURES;
+export type GestureFeatures = Record<GestureFeature, number>;
+
+export const CONDITION_OPS = ['<', '<=', '>', '>=', '=='] as const;
+export type ConditionOp = typeof CONDITION_OPS[number];
+
+export interface GestureCondition {
+  feature: GestureFeature;
+  op: ConditionOp;
+  value: number;
+}
+
+/**
+ * One gesture, as data. It becomes active once every `enter` condition has held
+ * for `holdMs` and it isn't cooling down; while several are ready the highest
+ * `priority` wins, and a higher-priority gesture preempts an active one. It ends
+ * once any `exit` condition (or, without `exit`, a failing `enter` condition)
+ * has held for `exitHoldMs`. It can't start again within `cooldownMs` of its
+ * last start.
+ */
+export interface GestureDefinition {
+  gesture: GestureName;
+  enabled: boolean;
+  priority: number;
+  enter: GestureCondition[]; // All must hold
+  exit?: GestureCondition[]; // Any ends the gesture
+  holdMs: number;
+  exitHoldMs: number;
+  cooldownMs: number;
+}
+
+export interface GestureProfile {
+  name: string;
+  definitions: GestureDefinition[];
+}
+
+export const GESTURE_PROFILE_VERSION = 1;
+
+const when = (feature: GestureFeature, op: ConditionOp, value: number): GestureCondition => ({ feature, op, value });
+
+// The original hard-coded detector (4 frames ≈ 130 ms at 30 fps) plus two-fist
+// CONTROL, COLLAPSE only when the hands are brought together fast and CIRCLE
+// from a ring-shaped pose. CIRCLE outranks COMPRESS: an OK sign is also a pinch.
+// Fists count as pinches, so COMPRESS wants none: otherwise every two-fist grab
+// would pull the particles in until CONTROL's hold is over.
+export const DEFAULT_GESTURE_PROFILE: GestureProfile = {
+  name: 'Default',
+  definitions: [
+    {
+      gesture: 'CONTROL', enabled: true, priority: 50,
+      enter: [when('hands', '==', 2), when('fists', '==', 2)],
+      holdMs: 200, exitHoldMs: 150, cooldownMs: 0,
+    },
+    {
+      gesture: 'CIRCLE', enabled: true, priority: 45,
+      enter: [when('ring', '>=', 0.5)],
+      exit: [when('ring', '<', 0.25)],
+      holdMs: 130, exitHoldMs: 130, cooldownMs: 0,
+    },
+    {
+      gesture: 'COMPRESS', enabled: true, priority: 40,
+      enter: [when('pinched', '>=', 1), when('fists', '==', 0)],
+      holdMs: 0, exitHoldMs: 0, cooldownMs: 0,
+    },
+    {
+      gesture: 'EXPAND', enabled: true, priority: 30,
+      enter: [when('hands', '==', 2), when('open', '==', 2), when('sinceRelease', '<', 200)],
+      holdMs: 0, exitHoldMs: 0, cooldownMs: 0,
+    },
+    {
+      gesture: 'COLLAPSE', enabled: true, priority: 20,
+      enter: [when('hands', '==', 2), when('distance', '<', 4), when('closingSpeed', '>', 12)],
+      exit: [when('hands', '<', 2), when('distance', '>=', 4)],
+      holdMs: 0, exitHoldMs: 130, cooldownMs: 1500,
+    },
+  ],
+};
+
+// Slower, more forgiving: wider ranges, longer holds, rarer explosions
+export const RELAXED_GESTURE_PROFILE: GestureProfile = {
+  name: 'Relaxed',
+  definitions: [
+    {
+      gesture: 'CONTROL', enabled: true, priority: 50,
+      enter: [when('hands', '==', 2), when('fists', '==', 2)],
+      holdMs: 400, exitHoldMs: 300, cooldownMs: 0,
+    },
+    {
+      gesture: 'CIRCLE', enabled: true, priority: 45,
+      enter: [when('ring', '>=', 0.35)],
+      exit: [when('ring', '<', 0.15)],
+      holdMs: 300, exitHoldMs: 250, cooldownMs: 0,
+    },
+    {
+      gesture: 'COMPRESS', enabled: true, priority: 40,
+      enter: [when('pinched', '>=', 1), when('fists', '==', 0)],
+      holdMs: 100, exitHoldMs: 200, cooldownMs: 0,
+    },
+    {
+      gesture: 'EXPAND', enabled: true, priority: 30,
+      enter: [when('hands', '==', 2), when('open', '==', 2), when('sinceRelease', '<', 400)],
+      holdMs: 0, exitHoldMs: 0, cooldownMs: 300,
+    },
+    {
+      gesture: 'COLLAPSE', enabled: true, priority: 20,
+      enter: [when('hands', '==', 2), when('distance', '<', 5), when('closingSpeed', '>', 8)],
+      exit: [when('hands', '<', 2), when('distance', '>=', 5)],
+      holdMs: 150, exitHoldMs: 300, cooldownMs: 3000,
+    },
+  ],
+};
+
+export const BUILTIN_GESTURE_PROFILES = [DEFAULT_GESTURE_PROFILE, RELAXED_GESTURE_PROFILE];
+
+export const testCondition = ({ feature, op, value }: GestureCondition, features: GestureFeatures): boolean => {
+  const x = features[feature];
+  switch (op) {
+    case '<': return x < value;
+    case '<=': return x <= value;
+    case '>': return x > value;
+    case '>=': return x >= value;
+    case '==': return x === value;
+  }
+};
+
+const GESTURE_NAMES: GestureName[] = ['CONTROL', 'EXPAND', 'COMPRESS', 'CIRCLE', 'COLLAPSE'];
+
+const isGestureName = (value: unknown): value is GestureName => GESTURE_NAMES.includes(value as GestureName);
+const isFeature = (value: unknown): value is GestureFeature => typeof value === 'string' && Object.hasOwn(GESTURE_FEATURES, value);
+const isConditionOp = (value: unknown): value is ConditionOp => CONDITION_OPS.includes(value as ConditionOp);
+
+const parseCondition = (data: unknown): GestureCondition => {
+  if (!isRecord(data) || !isFeature(data.feature) || !isConditionOp(data.op) || typeof data.value !== 'number') {
+    throw new Error(`Malformed gesture condition ${JSON.stringify(data)}.`);
+  }
+  return { feature: data.feature, op: data.op, value: data.value };
+};
+
+const parseDefinition = (data: unknown): GestureDefinition => {
+  if (!isRecord(data) || !isGestureName(data.gesture)) {
+    throw new Error(`Unknown gesture ${JSON.stringify(isRecord(data) ? data.gesture : data)}.`);
+  }
+  const { gesture, enter, exit } = data;
+  if (!Array.isArray(enter) || enter.length === 0) {
+    throw new Error(`${gesture} needs at least one enter condition.`);
+  }
+  const number = (key: string, fallback: number) => {
+    const value = data[key];
+    return typeof value === 'number' ? value : fallback;
+  };
+  return {
+    gesture,
+    enabled: data.enabled !== false,
+    priority: number('priority', 0),
+    enter: enter.map(parseCondition),
+    exit: Array.isArray(exit) && exit.length > 0 ? exit.map(parseCondition) : undefined,
+    holdMs: number('holdMs', 0),
+    exitHoldMs: number('exitHoldMs', 0),
+    cooldownMs: number('cooldownMs', 0),
+  };
+};
+
+export const serializeGestureProfile = (profile: GestureProfile): string =>
+  JSON.stringify({ version: GESTURE_PROFILE_VERSION, ...profile }, null, 2);
+
+// Throws with a readable message when the data isn't a profile we can use
+const readGestureProfile = (data: unknown): GestureProfile => {
+  if (!isRecord(data) || !Array.isArray(data.definitions)) {
+    throw new Error('Not a gesture profile: missing definitions.');
+  }
+  if (data.version !== GESTURE_PROFILE_VERSION) {
+    throw new Error(`Unsupported gesture profile version ${data.version}.`);
+  }
+  return {
+    name: typeof data.name === 'string' ? data.name : 'Imported',
+    definitions: data.definitions.map(parseDefinition),
+  };
+};
+
+export const parseGestureProfile = (text: string): GestureProfile => readGestureProfile(JSON.parse(text));
+
+const STORAGE_KEY = 'gestureProfiles';
+
+// Profiles saved from the tuning panel; unreadable entries are skipped
+export const loadSavedGestureProfiles = (): GestureProfile[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((data) => {
+      try {
+        return [readGestureProfile(data)];
+      } catch (err) {
+        console.warn('Skipping saved gesture profile:', err);
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveGestureProfiles = (profiles: GestureProfile[]) => {
+  const data = profiles.map((profile) => ({ version: GESTURE_PROFILE_VERSION, ...profile }));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (err) {
+    // Storage unavailable or full; the profiles just won't persist
+    console.warn('Failed to save gesture profiles:', err);
+  }
+};
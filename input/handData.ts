@@ -0,0 +1,38 @@
+import { HandData } from '../types';
+
+// Neutral hand data: no hands, no gesture
+export const createEmptyHandData = (): HandData => ({
+  left: null,
+  right: null,
+  distance: 0,
+  closingSpeed: 0,
+  centerX: 0,
+  centerY: 0,
+  centerZ: 0,
+  rotation: 0,
+  ring: null,
+  gesture: 'IDLE',
+  customGesture: null,
+});
+
+// Fill distance, center and rotation from the hand positions (world space).
+// With a single hand the center is that hand.
+export const measureHands = (data: HandData) => {
+  const single = data.left && !data.right ? data.left : data.right && !data.left ? data.right : null;
+  if (single) {
+    data.centerX = single.x;
+    data.centerY = single.y;
+    data.centerZ = single.z;
+    return;
+  }
+  if (!data.left || !data.right) return;
+  const dx = data.right.x - data.left.x;
+  const dy = data.right.y - data.left.y;
+  const dz = data.right.z - data.left.z;
+
+  data.distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  data.centerX = (data.left.x + data.right.x) / 2;
+  data.centerY = (data.left.y + data.right.y) / 2;
+  data.centerZ = (data.left.z + data.right.z) / 2;
+  data.rotation = Math.atan2(dy, dx);
+};
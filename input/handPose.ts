@@ -0,0 +1,168 @@
+// Normalized image coordinates as produced by MediaPipe (x/y in 0..1, z relative depth)
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// MediaPipe's handedness guess for one detection ('Left' | 'Right', as if mirrored)
+export interface Handedness {
+  label: string;
+  score: number;
+}
+
+// Bones of the 21-landmark hand skeleton, as pairs of landmark indices
+export const HAND_BONES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4], // Thumb
+  [0, 5], [5, 6], [6, 7], [7, 8], // Index
+  [9, 10], [10, 11], [11, 12], // Middle
+  [13, 14], [14, 15], [15, 16], // Ring
+  [0, 17], [17, 18], [18, 19], [19, 20], // Pinky
+  [5, 9], [9, 13], [13, 17], // Knuckles
+];
+
+const distance2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Wrist to middle finger MCP: the unit pose features are measured in, so they
+// don't depend on how far the hand is from the camera
+const handSize = (landmarks: Landmark[]) => distance2D(landmarks[0], landmarks[9]);
+
+// Thresholds of the pinch/open/fist classifiers, in hand sizes. Calibration fits
+// personal values; see input/calibration.ts
+export interface PoseThresholds {
+  pinchSpread: number; // Mean fingertip-to-palm distance below which the hand is grabbing
+  pinchTouch: number; // Thumb-to-index tip distance below which the hand is pinching
+  openMargin: number; // How far past its middle joint a fingertip must reach to count as extended
+  thumbSpread: number; // Thumb base-to-tip distance above which the thumb counts as extended
+  fistMargin: number; // How far past its middle joint a fingertip may reach with the hand still a fist
+}
+
+// The original fixed thresholds (0.12, 0.06, 0.02, 0.06) at a typical hand size
+// of 0.15; a fist originally needed every fingertip nearer the wrist than its middle joint
+export const DEFAULT_POSE_THRESHOLDS: PoseThresholds = {
+  pinchSpread: 0.8,
+  pinchTouch: 0.4,
+  openMargin: 0.13,
+  thumbSpread: 0.4,
+  fistMargin: 0,
+};
+
+// What the classifiers look at, in hand sizes
+export interface PoseFeatures {
+  spread: number; // Mean distance of the five fingertips to the palm center
+  touch: number; // Thumb tip to index tip
+  extension: number[]; // Index..pinky: how much farther from the wrist the tip is than the middle joint
+  thumb: number; // Thumb MCP to tip
+}
+
+const FINGERS = [
+  { tip: 8, pip: 6 },
+  { tip: 12, pip: 10 },
+  { tip: 16, pip: 14 },
+  { tip: 20, pip: 18 },
+];
+
+export const measurePose = (landmarks: Landmark[]): PoseFeatures => {
+  const size = handSize(landmarks) || 1;
+  const palm = landmarks[9]; // Middle finger MCP
+  const wrist = landmarks[0];
+  const tips = [4, 8, 12, 16, 20];
+  const spread = tips.reduce((sum, i) => sum + distance2D(palm, landmarks[i]), 0) / tips.length;
+
+  return {
+    spread: spread / size,
+    touch: distance2D(landmarks[4], landmarks[8]) / size,
+    extension: FINGERS.map(({ tip, pip }) => (distance2D(wrist, landmarks[tip]) - distance2D(wrist, landmarks[pip])) / size),
+    thumb: distance2D(landmarks[2], landmarks[4]) / size,
+  };
+};
+
+// Detect if all fingers are pinched together (grabbing): fingertips close to
+// the palm, or thumb and index touching. True for fists as well; see
+// isHandFist to tell them apart
+export const isHandPinched = (landmarks: Landmark[], thresholds = DEFAULT_POSE_THRESHOLDS): boolean => {
+  const pose = measurePose(landmarks);
+  return pose.spread < thresholds.pinchSpread || pose.touch < thresholds.pinchTouch;
+};
+
+// Detect if hand is open: at least three of the five fingers extended
+export const isHandOpen = (landmarks: Landmark[], thresholds = DEFAULT_POSE_THRESHOLDS): boolean => {
+  const pose = measurePose(landmarks);
+  let extendedFingers = pose.extension.filter((extension) => extension > thresholds.openMargin).length;
+  if (pose.thumb > thresholds.thumbSpread) {
+    extendedFingers++;
+  }
+  return extendedFingers >= 3;
+};
+
+// Detect a closed fist: all four fingers curled back, each fingertip (about)
+// nearer the wrist than its middle joint. A pinch keeps the fingers extended.
+export const isHandFist = (landmarks: Landmark[], thresholds = DEFAULT_POSE_THRESHOLDS): boolean =>
+  measurePose(landmarks).extension.every((extension) => extension < thresholds.fistMargin);
+
+// A closed loop of landmarks, in normalized image coordinates
+export interface LoopShape {
+  confidence: number; // 0..1
+  x: number; // Center
+  y: number;
+  z: number;
+  area: number;
+}
+
+// 1 at `full`, 0 at `none`, linear in between (either direction)
+const ramp = (value: number, full: number, none: number) =>
+  Math.max(0, Math.min(1, (value - none) / (full - none)));
+
+// Score of a closed polygon through `points`: touching ends, an area that isn't a
+// sliver (relative to size²) and a round outline (4πA/P², 1 for a circle)
+const measureLoop = (
+  points: Landmark[],
+  size: number,
+  minArea: number,
+  touching: number
+): LoopShape => {
+  let area = 0;
+  let perimeter = 0;
+  let x = 0, y = 0, z = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+    perimeter += distance2D(a, b);
+    x += a.x; y += a.y; z += a.z;
+  }
+  area = Math.abs(area) / 2;
+  const roundness = perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+  const confidence =
+    touching * ramp(area / (size * size), minArea, minArea / 3) * ramp(roundness, 0.55, 0.25);
+  return { confidence, x: x / points.length, y: y / points.length, z: z / points.length, area };
+};
+
+// Thumb MCP → tip, then index tip → MCP: the loop of an OK sign
+const OK_LOOP = [2, 3, 4, 8, 7, 6, 5];
+
+// Single-hand OK ring: thumb and index tips touching around an open loop, the
+// other three fingers extended. Unlike a pinch, the loop encloses real area.
+export const measureOkRing = (landmarks: Landmark[]): LoopShape => {
+  const size = handSize(landmarks);
+  const wrist = landmarks[0];
+  const extended = [[12, 10], [16, 14], [20, 18]].filter(
+    ([tip, pip]) => distance2D(wrist, landmarks[tip]) > distance2D(wrist, landmarks[pip])
+  ).length;
+  const touching = ramp(distance2D(landmarks[4], landmarks[8]) / size, 0.25, 0.5) * (extended / 3);
+  return measureLoop(OK_LOOP.map((i) => landmarks[i]), size, 0.25, touching);
+};
+
+// Two-hand ring: thumb tips touching each other and index tips touching each
+// other, the loop running along one hand's index and thumb and back along the other's
+export const measureHandsRing = (a: Landmark[], b: Landmark[]): LoopShape => {
+  const size = (handSize(a) + handSize(b)) / 2;
+  const touching =
+    ramp(distance2D(a[4], b[4]) / size, 0.3, 0.6) * ramp(distance2D(a[8], b[8]) / size, 0.3, 0.6);
+  const loop = [
+    ...[5, 6, 7, 8].map((i) => a[i]),
+    ...[8, 7, 6, 5, 2, 3, 4].map((i) => b[i]),
+    ...[4, 3, 2].map((i) => a[i]),
+  ];
+  return measureLoop(loop, size, 0.3, touching);
+};
@@ -0,0 +1,193 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+// Asset locations, set at build time (see vite.config.ts and the README).
+// By default the WASM fileset is copied from the installed package into the
+// bundle and the model is served from public/models, so nothing is fetched
+// from the internet.
+const MEDIAPIPE_VERSION = process.env.MEDIAPIPE_VERSION ?? '';
+const WASM_PATH = process.env.MEDIAPIPE_WASM_PATH || 'mediapipe/wasm';
+const MODEL_PATH = process.env.HAND_MODEL_PATH || 'models/hand_landmarker.task';
+// Tried when the local model is missing; set HAND_MODEL_FALLBACK_URL="" to stay offline
+const MODEL_FALLBACK_URL =
+  process.env.HAND_MODEL_FALLBACK_URL ??
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+export type HandModelStage = 'version' | 'wasm' | 'model' | 'init';
+
+const STAGE_LABELS: Record<HandModelStage, string> = {
+  version: 'Version check',
+  wasm: 'Runtime download',
+  model: 'Model download',
+  init: 'Model initialization',
+};
+
+/** A hand tracking load failure, tagged with the stage that failed. */
+export class HandModelLoadError extends Error {
+  constructor(readonly stage: HandModelStage, message: string, options?: { cause?: unknown }) {
+    super(`${STAGE_LABELS[stage]} failed: ${message}`, options);
+    this.name = 'HandModelLoadError';
+  }
+}
+
+export interface HandModelProgress {
+  stage: HandModelStage;
+  message: string;
+  progress?: number; // 0..1 while downloading, when the size is known
+}
+
+type ProgressCallback = (progress: HandModelProgress) => void;
+
+const resolveUrl = (path: string) => new URL(path, document.baseURI).href;
+
+const formatMB = (bytes: number) => `${(bytes / 1048576).toFixed(1)} MB`;
+
+// Fetch a binary asset, reporting progress as it streams in
+const download = async (
+  url: string,
+  stage: HandModelStage,
+  label: string,
+  onProgress: ProgressCallback
+): Promise<Uint8Array> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new HandModelLoadError(stage, `could not reach ${url}.`, { cause: err });
+  }
+  if (!response.ok) {
+    throw new HandModelLoadError(stage, `${url} returned ${response.status} ${response.statusText}.`);
+  }
+
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body) {
+    onProgress({ stage, message: `Downloading ${label}…` });
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress({
+      stage,
+      message: `Downloading ${label}… ${formatMB(loaded)}${total ? ` / ${formatMB(total)}` : ''}`,
+      progress: total ? Math.min(1, loaded / total) : undefined,
+    });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+// The version a WASM location declares: a version.json next to the files (our
+// bundle writes one) or an `@x.y.z` in a CDN path. Null when it can't be told.
+const wasmVersion = async (basePath: string): Promise<string | null> => {
+  const pinned = basePath.match(/tasks-vision@([^/]+)/);
+  if (pinned) return pinned[1];
+  try {
+    const response = await fetch(`${basePath}/version.json`);
+    if (!response.ok) return null;
+    const manifest = await response.json();
+    return typeof manifest.version === 'string' ? manifest.version : null;
+  } catch {
+    return null;
+  }
+};
+
+// The JS API and the WASM runtime must come from the same release: their
+// internal interface changes between versions, often without a clear error
+const checkVersion = async (basePath: string) => {
+  const version = await wasmVersion(basePath);
+  if (version === null) {
+    console.warn(`Could not determine the MediaPipe WASM version at ${basePath}; assuming ${MEDIAPIPE_VERSION}.`);
+    return;
+  }
+  if (MEDIAPIPE_VERSION && version !== MEDIAPIPE_VERSION) {
+    throw new HandModelLoadError(
+      'version',
+      `WASM files at ${basePath} are ${version}, but the app uses @mediapipe/tasks-vision ${MEDIAPIPE_VERSION}. ` +
+        'Point MEDIAPIPE_WASM_PATH at matching files or unset it to use the bundled ones.'
+    );
+  }
+};
+
+const loadWasm = async (onProgress: ProgressCallback) => {
+  const basePath = resolveUrl(WASM_PATH).replace(/\/$/, '');
+  onProgress({ stage: 'version', message: 'Checking hand tracking runtime…' });
+  await checkVersion(basePath);
+
+  const name = (await FilesetResolver.isSimdSupported()) ? 'vision_wasm_internal' : 'vision_wasm_nosimd_internal';
+  const binary = await download(`${basePath}/${name}.wasm`, 'wasm', 'hand tracking runtime', onProgress);
+  return {
+    wasmLoaderPath: `${basePath}/${name}.js`,
+    wasmBinaryPath: URL.createObjectURL(new Blob([binary], { type: 'application/wasm' })),
+  };
+};
+
+const loadModel = async (onProgress: ProgressCallback): Promise<Uint8Array> => {
+  const localUrl = resolveUrl(MODEL_PATH);
+  try {
+    return await download(localUrl, 'model', 'hand model', onProgress);
+  } catch (err) {
+    if (!MODEL_FALLBACK_URL) throw err;
+    console.warn(`Local hand model unavailable (${(err as Error).message}); trying ${MODEL_FALLBACK_URL}`);
+  }
+  try {
+    return await download(MODEL_FALLBACK_URL, 'model', 'hand model', onProgress);
+  } catch (err) {
+    throw new HandModelLoadError(
+      'model',
+      `no model at ${localUrl} (run \`npm run fetch-model\`) and ${MODEL_FALLBACK_URL} is unreachable.`,
+      { cause: err }
+    );
+  }
+};
+
+/**
+ * Hand landmarker shared by every MediaPipe-backed source (webcam, video file).
+ * Tries the GPU delegate first and falls back to CPU. Failures are thrown as
+ * HandModelLoadError so the UI can say which stage broke.
+ */
+export const createHandLandmarker = async (onProgress: ProgressCallback = () => {}): Promise<HandLandmarker> => {
+  const fileset = await loadWasm(onProgress);
+  const model = await loadModel(onProgress);
+
+  const create = (delegate: 'GPU' | 'CPU') =>
+    HandLandmarker.createFromOptions(fileset, {
+      baseOptions: {
+        modelAssetBuffer: model,
+        delegate,
+      },
+      runningMode: 'VIDEO',
+      numHands: 2,
+      minHandDetectionConfidence: 0.5,
+      minHandPresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+
+  try {
+    onProgress({ stage: 'init', message: 'Starting hand tracking (GPU)…' });
+    try {
+      return await create('GPU');
+    } catch (err) {
+      console.warn('GPU delegate unavailable, falling back to CPU:', err);
+      onProgress({ stage: 'init', message: 'GPU unavailable, starting hand tracking on CPU…' });
+    }
+    try {
+      return await create('CPU');
+    } catch (err) {
+      throw new HandModelLoadError('init', 'the hand model could not start on GPU or CPU.', { cause: err });
+    }
+  } finally {
+    URL.revokeObjectURL(fileset.wasmBinaryPath);
+  }
+};
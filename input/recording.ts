@@ -0,0 +1,81 @@
+import { HandData } from '../types';
+import { Handedness, Landmark } from './handPose';
+
+export const RECORDING_VERSION = 1;
+
+export interface HandRecordingFrame {
+  t: number; // ms since the recording started
+  landmarks: Landmark[][]; // Raw MediaPipe landmarks, one array of 21 per hand
+  handedness?: Handedness[]; // Per hand; missing in recordings made before it was tracked
+  handData: HandData; // What the live pipeline derived, for comparison
+}
+
+export interface HandRecording {
+  version: number;
+  createdAt: string;
+  frames: HandRecordingFrame[];
+}
+
+/** Collects pipeline input/output per camera frame while recording is on. */
+export class HandRecorder {
+  private frames: HandRecordingFrame[] = [];
+  private startTime = 0;
+  recording = false;
+
+  start(time: number) {
+    this.frames = [];
+    this.startTime = time;
+    this.recording = true;
+  }
+
+  add(time: number, hands: Landmark[][] | undefined, handedness: Handedness[] | undefined, handData: HandData) {
+    if (!this.recording) return;
+    this.frames.push({
+      t: time - this.startTime,
+      // Full precision, so a replay reproduces the live HandData exactly
+      landmarks: (hands ?? []).map((hand) => hand.map((lm) => ({ x: lm.x, y: lm.y, z: lm.z }))),
+      handedness: handedness?.map(({ label, score }) => ({ label, score })),
+      handData: structuredClone(handData),
+    });
+  }
+
+  get frameCount() {
+    return this.frames.length;
+  }
+
+  stop(): HandRecording {
+    this.recording = false;
+    return {
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      frames: this.frames,
+    };
+  }
+}
+
+export const downloadRecording = (recording: HandRecording, filename = `hand-recording-${Date.now()}.json`) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Throws with a readable message when the file isn't a recording we can play
+export const parseRecording = (text: string): HandRecording => {
+  const data = JSON.parse(text);
+  if (!data || !Array.isArray(data.frames)) {
+    throw new Error('Not a hand recording: missing frames.');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${data.version}.`);
+  }
+  for (const frame of data.frames) {
+    if (typeof frame.t !== 'number' || !Array.isArray(frame.landmarks)) {
+      throw new Error('Malformed recording frame.');
+    }
+  }
+  return data as HandRecording;
+};
@@ -0,0 +1,55 @@
+import { createElement, type ComponentType } from 'react';
+import { InputManager } from './InputManager';
+import { InputSource, InputSourceStatus } from './InputSource';
+
+export interface InputSourcePanelProps<S extends InputSource = InputSource> {
+  source: S;
+  manager: InputManager;
+  status: InputSourceStatus;
+}
+
+export interface InputSourceDefinition<S extends InputSource = InputSource> {
+  id: string;
+  label: string;
+  create: () => S;
+  // Source-specific controls shown in the input panel
+  panel?: ComponentType<InputSourcePanelProps<S>>;
+  // Switch to this source automatically when this one reports an error
+  fallback?: string;
+}
+
+// A created source with its panel already bound to it, so the registry can
+// hold sources of every type without forgetting which panel goes with which
+export interface InputSourceInstance {
+  source: InputSource;
+  Panel: ComponentType<Omit<InputSourcePanelProps, 'source'>> | null;
+}
+
+export interface RegisteredInputSource {
+  id: string;
+  label: string;
+  create: () => InputSourceInstance;
+  fallback?: string;
+}
+
+const definitions = new Map<string, RegisteredInputSource>();
+
+// Later registrations with the same id replace earlier ones
+export const registerInputSource = <S extends InputSource>({ id, label, create, panel, fallback }: InputSourceDefinition<S>) => {
+  definitions.set(id, {
+    id,
+    label,
+    fallback,
+    create: () => {
+      const source = create();
+      return {
+        source,
+        Panel: panel ? (props: Omit<InputSourcePanelProps, 'source'>) => createElement(panel, { ...props, source }) : null,
+      };
+    },
+  });
+};
+
+export const getInputSource = (id: string): RegisteredInputSource | undefined => definitions.get(id);
+
+export const listInputSources = (): RegisteredInputSource[] => [...definitions.values()];
@@ -0,0 +1,91 @@
+import type { HandLandmarker } from '@mediapipe/tasks-vision';
+import { InputSink, InputSource } from '../InputSource';
+import { createHandLandmarker, HandModelLoadError } from '../mediapipe';
+
+/**
+ * Runs MediaPipe hand detection on a <video> element every animation frame.
+ * Subclasses attach the media (camera stream, file) in `open` and report
+ * 'ready' once frames are flowing; load failures become 'error' statuses.
+ */
+export abstract class MediaPipeVideoSource implements InputSource {
+  readonly video: HTMLVideoElement;
+  protected sink: InputSink | null = null;
+  private landmarker: HandLandmarker | null = null;
+  private animationFrameId = 0;
+
+  constructor() {
+    this.video = document.createElement('video');
+    this.video.autoplay = true;
+    this.video.playsInline = true;
+    this.video.muted = true;
+  }
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    this.run();
+  }
+
+  stop() {
+    this.sink = null;
+    cancelAnimationFrame(this.animationFrameId);
+    this.landmarker?.close();
+    this.landmarker = null;
+    this.close();
+  }
+
+  // Attach media to `this.video`; throw an Error with a user-facing message on failure
+  protected abstract open(): Promise<void>;
+
+  protected close() {}
+
+  // True once stop() was called, e.g. while the model was still loading
+  protected get stopped() {
+    return this.sink === null;
+  }
+
+  // True once the model has loaded and media can be attached
+  protected get modelReady() {
+    return this.landmarker !== null;
+  }
+
+  private async run() {
+    this.sink?.status({ state: 'loading', message: 'Loading hand tracking model…' });
+    let landmarker: HandLandmarker;
+    try {
+      landmarker = await createHandLandmarker(({ message, progress }) =>
+        this.sink?.status({ state: 'loading', message, progress })
+      );
+    } catch (err) {
+      console.error('Error initializing MediaPipe:', err);
+      const message = err instanceof HandModelLoadError ? err.message : 'Failed to load hand tracking model.';
+      this.sink?.status({ state: 'error', message });
+      return;
+    }
+    if (this.stopped) {
+      landmarker.close();
+      return;
+    }
+    this.landmarker = landmarker;
+
+    try {
+      await this.open();
+    } catch (err) {
+      console.error(err);
+      this.sink?.status({ state: 'error', message: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    if (!this.stopped) this.detect();
+  }
+
+  private detect = () => {
+    if (!this.landmarker || !this.sink) return;
+
+    const time = performance.now();
+    if (this.video.currentTime > 0 && this.video.readyState >= 2) {
+      const results = this.landmarker.detectForVideo(this.video, time);
+      const handedness = results.handedness?.map(([best]) => ({ label: best.categoryName, score: best.score }));
+      this.sink.frame({ type: 'landmarks', time, hands: results.landmarks ?? [], handedness });
+    }
+    this.animationFrameId = requestAnimationFrame(this.detect);
+  };
+}
@@ -0,0 +1,75 @@
+import { InputSink, InputSource, RawHands } from '../InputSource';
+import { Handedness, Landmark } from '../handPose';
+
+export const DEFAULT_NETWORK_URL = 'ws://localhost:8765';
+
+// One message per frame: raw landmarks (normalized camera space, like MediaPipe,
+// optionally with its handedness per hand) or hands already in world space
+type NetworkMessage = { landmarks: Landmark[][]; handedness?: Handedness[] } | { hands: RawHands };
+
+/**
+ * Hand data streamed over a WebSocket as JSON, e.g. from a tracker running
+ * on another machine. Frames are timestamped on arrival.
+ */
+export class NetworkSource implements InputSource {
+  private socket: WebSocket | null = null;
+  private sink: InputSink | null = null;
+
+  constructor(public url = DEFAULT_NETWORK_URL) {}
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    this.connect();
+  }
+
+  stop() {
+    this.sink = null;
+    this.disconnect();
+  }
+
+  // Reconnect, e.g. after the URL changed
+  connect() {
+    const sink = this.sink;
+    if (!sink) return;
+    this.disconnect();
+
+    sink.status({ state: 'loading', message: `Connecting to ${this.url}…` });
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err) {
+      sink.status({ state: 'error', message: `Invalid URL ${this.url}.` });
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => sink.status({ state: 'ready' });
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      sink.reset();
+      sink.status({ state: 'error', message: `Disconnected from ${this.url}.` });
+    };
+    socket.onmessage = (event) => {
+      let message: NetworkMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        console.warn('Ignoring malformed hand message');
+        return;
+      }
+      const time = performance.now();
+      if ('landmarks' in message && Array.isArray(message.landmarks)) {
+        sink.frame({ type: 'landmarks', time, hands: message.landmarks, handedness: message.handedness });
+      } else if ('hands' in message && message.hands) {
+        sink.frame({ type: 'hands', time, hands: message.hands });
+      }
+    };
+  }
+
+  private disconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
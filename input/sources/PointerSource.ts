@@ -0,0 +1,103 @@
+import { InputSink, InputSource } from '../InputSource';
+import { PointerHands } from '../PointerHands';
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+// Only presses on the 3D canvas drive the hands, so the overlay stays clickable
+const isSceneTarget = (target: EventTarget | null) => target instanceof HTMLCanvasElement;
+
+const normalized = (e: { clientX: number; clientY: number }) =>
+  [e.clientX / window.innerWidth, e.clientY / window.innerHeight] as const;
+
+/**
+ * Camera-free input: mouse, touch and keyboard events drive PointerHands,
+ * sampled once per animation frame.
+ */
+export class PointerSource implements InputSource {
+  readonly hands = new PointerHands();
+  private sink: InputSink | null = null;
+  private animationFrameId = 0;
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    window.addEventListener('pointermove', this.onPointerMove);
+    window.addEventListener('pointerdown', this.onPointerDown);
+    window.addEventListener('pointerup', this.onPointerUp);
+    window.addEventListener('pointercancel', this.onPointerUp);
+    document.documentElement.addEventListener('pointerleave', this.onPointerLeave);
+    window.addEventListener('wheel', this.onWheel, { passive: true });
+    window.addEventListener('contextmenu', this.onContextMenu);
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    window.addEventListener('blur', this.onBlur);
+    sink.status({ state: 'ready' });
+    this.loop();
+  }
+
+  stop() {
+    this.sink = null;
+    cancelAnimationFrame(this.animationFrameId);
+    window.removeEventListener('pointermove', this.onPointerMove);
+    window.removeEventListener('pointerdown', this.onPointerDown);
+    window.removeEventListener('pointerup', this.onPointerUp);
+    window.removeEventListener('pointercancel', this.onPointerUp);
+    document.documentElement.removeEventListener('pointerleave', this.onPointerLeave);
+    window.removeEventListener('wheel', this.onWheel);
+    window.removeEventListener('contextmenu', this.onContextMenu);
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    window.removeEventListener('blur', this.onBlur);
+  }
+
+  private loop = () => {
+    if (!this.sink) return;
+    this.sink.frame({ type: 'hands', time: performance.now(), hands: this.hands.sample() });
+    this.animationFrameId = requestAnimationFrame(this.loop);
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    if (e.pointerType === 'touch') {
+      if (isSceneTarget(e.target)) this.hands.setTouch(e.pointerId, ...normalized(e));
+    } else {
+      this.hands.moveCursor(...normalized(e));
+    }
+  };
+
+  private onPointerDown = (e: PointerEvent) => {
+    if (!isSceneTarget(e.target)) return;
+    if (e.pointerType === 'touch') {
+      this.hands.setTouch(e.pointerId, ...normalized(e));
+    } else {
+      this.hands.moveCursor(...normalized(e));
+      this.hands.setButton(e.button, true);
+    }
+  };
+
+  private onPointerUp = (e: PointerEvent) => {
+    if (e.pointerType === 'touch') this.hands.endTouch(e.pointerId);
+    else this.hands.setButton(e.button, false);
+  };
+
+  private onPointerLeave = () => this.hands.leave();
+
+  private onWheel = (e: WheelEvent) => {
+    if (isSceneTarget(e.target)) this.hands.wheel(e.deltaY);
+  };
+
+  private onContextMenu = (e: MouseEvent) => {
+    // Right button is the right hand's pinch
+    if (isSceneTarget(e.target)) e.preventDefault();
+  };
+
+  private onKey = (down: boolean) => (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target)) return;
+    if (this.hands.setKey(e.key, down)) e.preventDefault();
+  };
+
+  private onKeyDown = this.onKey(true);
+  private onKeyUp = this.onKey(false);
+
+  // E.g. alt-tab while a key is held
+  private onBlur = () => this.hands.releaseAll();
+}
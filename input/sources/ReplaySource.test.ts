@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Landmark } from '../handPose';
+import { createEmptyHandData } from '../handData';
+import { HandPipeline } from '../HandPipeline';
+import { InputManager } from '../InputManager';
+import { CustomGesture, gestureFeatures } from '../customGestures';
+import { HandRecording } from '../recording';
+import { ReplaySource } from './ReplaySource';
+
+// An open right hand in normalized camera coordinates, fingers pointing up
+const pose: Landmark[] = Array.from({ length: 21 }, (_, i) => {
+  if (i === 0) return { x: 0.7, y: 0.8, z: 0 };
+  const finger = Math.floor((i - 1) / 4);
+  const joint = (i - 1) % 4;
+  return { x: 0.62 + finger * 0.04, y: 0.72 - joint * 0.05, z: 0 };
+});
+
+// The pose held from 0 to 600 ms, then no hands until 1500 ms, at 30 fps
+const recording: HandRecording = {
+  version: 1,
+  createdAt: '',
+  frames: Array.from({ length: 46 }, (_, n) => ({
+    t: n * 33,
+    landmarks: n * 33 <= 600 ? [pose] : [],
+    handData: createEmptyHandData(),
+  })),
+};
+
+// Trained on the pose as the pipeline sees it
+const trainGesture = (): CustomGesture => {
+  const data = new HandPipeline().process([pose], 0);
+  return { name: 'Wave', hands: 1, examples: gestureFeatures(data, 1), action: { type: 'explode' } };
+};
+
+describe('ReplaySource', () => {
+  beforeEach(() => {
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("doesn't start custom gestures again when seeking", () => {
+    const started: string[] = [];
+    const manager = new InputManager({
+      onHandData: () => {},
+      onStatus: () => {},
+      onCustomGesture: (name) => started.push(name),
+    });
+    manager.setCustomGestures([trainGesture()]);
+    const source = new ReplaySource();
+    manager.use(source);
+    source.load(recording, 'wave.json');
+
+    source.update(0);
+    source.update(1000);
+    expect(started).toEqual(['Wave']);
+
+    // Back to after the gesture, and into the middle of it
+    source.seek(1400);
+    source.seek(400);
+    expect(started).toEqual(['Wave']);
+    expect(manager.lastHandData?.customGesture).toBe('Wave');
+
+    // Playing it again from the start does start it again
+    source.seek(0);
+    source.update(2000);
+    expect(started).toEqual(['Wave', 'Wave']);
+    manager.dispose();
+  });
+});
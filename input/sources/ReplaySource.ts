@@ -0,0 +1,115 @@
+import { InputSink, InputSource } from '../InputSource';
+import { HandRecording } from '../recording';
+
+/**
+ * Plays a HandRecording back as landmark frames, so replayed frames get the
+ * same smoothing and gesture detection as the live camera.
+ * Playback position is in recording time (ms); `speed` scales wall time.
+ */
+export class ReplaySource implements InputSource {
+  speed = 1;
+  paused = false;
+  loop = true;
+  fileName: string | null = null;
+
+  private recording: HandRecording | null = null;
+  private sink: InputSink | null = null;
+  private position = 0;
+  private nextFrame = 0; // Index of the first frame not yet emitted
+  private lastWallTime: number | null = null;
+  private animationFrameId = 0;
+
+  get duration() {
+    const frames = this.recording?.frames ?? [];
+    return frames.length > 0 ? frames[frames.length - 1].t : 0;
+  }
+
+  get time() {
+    return this.position;
+  }
+
+  get loaded() {
+    return this.recording !== null;
+  }
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    this.lastWallTime = null;
+    if (this.recording) {
+      this.seek(this.position);
+      sink.status({ state: 'ready' });
+    } else {
+      sink.status({ state: 'idle', message: 'Load a recording.' });
+    }
+    this.tick();
+  }
+
+  stop() {
+    this.sink = null;
+    cancelAnimationFrame(this.animationFrameId);
+  }
+
+  load(recording: HandRecording, fileName: string) {
+    this.recording = recording;
+    this.fileName = fileName;
+    this.paused = false;
+    this.seek(0);
+    this.sink?.status({ state: 'ready' });
+  }
+
+  play() {
+    if (this.position >= this.duration) this.seek(0);
+    this.paused = false;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  /**
+   * Jump to `time` (ms). The pipeline is stateful, so it is reset and every
+   * frame from the start is emitted again: the result is exactly what a
+   * straight playback would have produced at that point. Those frames are
+   * marked as catch-up, so e.g. custom gesture actions in them don't run again.
+   */
+  seek(time: number) {
+    this.position = Math.max(0, Math.min(this.duration, time));
+    this.nextFrame = 0;
+    this.sink?.reset();
+    this.emitUntil(this.position, true);
+  }
+
+  // Advance by the wall time since the last call
+  update(wallTime: number) {
+    const elapsed = this.lastWallTime === null ? 0 : wallTime - this.lastWallTime;
+    this.lastWallTime = wallTime;
+    if (this.paused || !this.recording || this.recording.frames.length === 0) return;
+
+    this.position += elapsed * this.speed;
+    if (this.position >= this.duration) {
+      if (this.loop) {
+        this.seek(0);
+        return;
+      }
+      this.position = this.duration;
+      this.paused = true;
+    }
+    this.emitUntil(this.position);
+  }
+
+  private tick = () => {
+    if (!this.sink) return;
+    this.update(performance.now());
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  };
+
+  // Emit every frame up to `time`, in order. Frames carry their recorded
+  // timestamps, so fast playback doesn't change detection.
+  private emitUntil(time: number, catchUp = false) {
+    const frames = this.recording?.frames ?? [];
+    while (this.nextFrame < frames.length && frames[this.nextFrame].t <= time) {
+      const frame = frames[this.nextFrame++];
+      this.sink?.frame({ type: 'landmarks', time: frame.t, hands: frame.landmarks, handedness: frame.handedness, catchUp });
+    }
+  }
+}
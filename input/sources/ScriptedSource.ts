@@ -0,0 +1,125 @@
+import { HandRing } from '../../types';
+import { InputSink, InputSource, RawHand, RawHands } from '../InputSource';
+
+interface ScriptedHand {
+  x: number;
+  y: number;
+  pose: 'open' | 'pinch' | 'fist' | 'ring'; // 'ring' on both hands: thumbs and index fingers joined
+}
+
+interface Keyframe {
+  t: number; // Seconds into the script
+  left: ScriptedHand;
+  right: ScriptedHand;
+}
+
+const open = (x: number, y = 0): ScriptedHand => ({ x, y, pose: 'open' });
+const pinched = (x: number, y = 0): ScriptedHand => ({ x, y, pose: 'pinch' });
+const fist = (x: number, y = 0): ScriptedHand => ({ x, y, pose: 'fist' });
+const ring = (x: number, y = 0): ScriptedHand => ({ x, y, pose: 'ring' });
+
+// Walks through every gesture: idle, compress, expand on release, a held
+// ring (spawns a planet), collapse (explodes it), then grabs and turns
+// the universe with two fists
+const DEMO_SCRIPT: Keyframe[] = [
+  { t: 0, left: open(-10), right: open(10) },
+  { t: 1.5, left: open(-10), right: open(10) },
+  { t: 2, left: pinched(-8), right: pinched(8) },
+  { t: 3.5, left: pinched(-8), right: pinched(8) },
+  { t: 3.6, left: open(-8), right: open(8) },
+  { t: 4.5, left: open(-6, 1), right: open(6, 1) },
+  { t: 5, left: ring(-4, 1), right: ring(4, 1) },
+  { t: 7.5, left: ring(-4, 1), right: ring(4, 1) },
+  { t: 8, left: open(-7, 1), right: open(7, 1) },
+  { t: 8.3, left: open(-1), right: open(1) },
+  { t: 9.5, left: open(-1), right: open(1) },
+  { t: 11, left: open(-10), right: open(10) },
+  { t: 12, left: open(-10), right: open(10) },
+  { t: 12.5, left: fist(-6), right: fist(6) },
+  { t: 13, left: fist(-6), right: fist(6) },
+  { t: 15, left: fist(-7, -3), right: fist(9, 3) },
+  { t: 15.5, left: open(-7, -3), right: open(9, 3) },
+  { t: 16.5, left: open(-10), right: open(10) },
+  { t: 17.5, left: open(-10), right: open(10) },
+];
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// A ring spans the gap between the hands
+const scriptedRing = (a: Keyframe, hands: RawHands): HandRing | null => {
+  const { left, right } = hands;
+  if (a.left.pose !== 'ring' || a.right.pose !== 'ring' || !left || !right) return null;
+  return {
+    kind: 'hands',
+    confidence: 1,
+    x: (left.x + right.x) / 2,
+    y: (left.y + right.y) / 2,
+    z: 0,
+    radius: Math.hypot(right.x - left.x, right.y - left.y) / 2,
+  };
+};
+
+// Positions ease between keyframes; the pose switches at the next keyframe
+const interpolate = (a: ScriptedHand, b: ScriptedHand, t: number): RawHand => {
+  const s = t * t * (3 - 2 * t);
+  return {
+    x: lerp(a.x, b.x, s),
+    y: lerp(a.y, b.y, s),
+    z: 0,
+    isOpen: a.pose === 'open' || a.pose === 'ring',
+    isPinched: a.pose === 'pinch' || a.pose === 'fist',
+    isFist: a.pose === 'fist',
+  };
+};
+
+/**
+ * Synthetic two-hand motion from a looping keyframe script. Needs no camera
+ * or user, which makes it handy for demos and for checking the gesture stages.
+ */
+export class ScriptedSource implements InputSource {
+  speed = 1;
+  private readonly script: Keyframe[];
+  private sink: InputSink | null = null;
+  private startTime = 0;
+  private animationFrameId = 0;
+
+  constructor(script: Keyframe[] = DEMO_SCRIPT) {
+    this.script = script;
+  }
+
+  get duration() {
+    return this.script[this.script.length - 1].t;
+  }
+
+  start(sink: InputSink) {
+    this.sink = sink;
+    this.startTime = performance.now();
+    sink.status({ state: 'ready' });
+    this.loop();
+  }
+
+  stop() {
+    this.sink = null;
+    cancelAnimationFrame(this.animationFrameId);
+  }
+
+  // Seconds into the current loop of the script
+  get time() {
+    return (((performance.now() - this.startTime) / 1000) * this.speed) % this.duration;
+  }
+
+  private loop = () => {
+    if (!this.sink) return;
+    const t = this.time;
+    let i = 0;
+    while (i < this.script.length - 2 && this.script[i + 1].t <= t) i++;
+    const a = this.script[i];
+    const b = this.script[i + 1];
+    const f = b.t > a.t ? Math.min(1, (t - a.t) / (b.t - a.t)) : 1;
+
+    const hands: RawHands = { left: interpolate(a.left, b.left, f), right: interpolate(a.right, b.right, f) };
+    hands.ring = scriptedRing(a, hands);
+    this.sink.frame({ type: 'hands', time: performance.now(), hands });
+    this.animationFrameId = requestAnimationFrame(this.loop);
+  };
+}
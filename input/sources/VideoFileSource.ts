@@ -0,0 +1,40 @@
+import { MediaPipeVideoSource } from './MediaPipeVideoSource';
+
+/**
+ * A pre-recorded video, looped and tracked like the webcam. Useful for
+ * reproducing a performance without standing in front of the camera.
+ */
+export class VideoFileSource extends MediaPipeVideoSource {
+  fileName: string | null = null;
+  private url: string | null = null;
+
+  constructor() {
+    super();
+    this.video.loop = true;
+  }
+
+  load(file: File) {
+    if (this.url) URL.revokeObjectURL(this.url);
+    this.url = URL.createObjectURL(file);
+    this.fileName = file.name;
+    this.video.src = this.url;
+    this.video.play().catch((err) => console.error('Video playback failed:', err));
+    // Already running: detection picks the new video up on the next frame
+    if (this.modelReady) this.sink?.status({ state: 'ready' });
+  }
+
+  protected async open() {
+    if (!this.url) {
+      this.sink?.status({ state: 'idle', message: 'Choose a video file.' });
+      return;
+    }
+    this.sink?.status({ state: 'ready' });
+  }
+
+  protected close() {
+    this.video.pause();
+    this.video.removeAttribute('src');
+    if (this.url) URL.revokeObjectURL(this.url);
+    this.url = null;
+  }
+}
@@ -0,0 +1,38 @@
+import { MediaPipeVideoSource } from './MediaPipeVideoSource';
+
+/** The user-facing camera, tracked with MediaPipe. */
+export class WebcamSource extends MediaPipeVideoSource {
+  protected async open() {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      throw new Error('Camera not supported.');
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          width: { ideal: 640 },
+          height: { ideal: 480 },
+          facingMode: 'user',
+          frameRate: { ideal: 30 },
+        },
+      });
+    } catch (err) {
+      console.error(err);
+      throw new Error('Camera access denied.');
+    }
+    if (this.stopped) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.video.srcObject = stream;
+    this.sink?.status({ state: 'ready' });
+  }
+
+  protected close() {
+    const stream = this.video.srcObject as MediaStream | null;
+    stream?.getTracks().forEach((track) => track.stop());
+    this.video.srcObject = null;
+  }
+}
@@ -0,0 +1,18 @@
+// Downloads the MediaPipe hand landmarker model into public/models so the app
+// can track hands without internet access. Run once on a connected machine.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/models/hand_landmarker.task');
+
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  console.error(`Download failed: ${response.status} ${response.statusText}`);
+  process.exit(1);
+}
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+console.log(`Saved ${path.relative(process.cwd(), target)}`);
@@ -0,0 +1,346 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { HandData, ParticleConfig, ShapeSpec, SimulationCommand, Transition } from '../types';
+import {
+  adoptSnapshot,
+  DEFAULT_SEED,
+  ParticleBuffers,
+  ParticleSnapshot,
+  seedParticles,
+  TargetShape,
+  targetColors,
+} from './ParticleSimulation';
+import { createRandom, RandomFn } from './random';
+import { FIXED_DT, MAX_SUBSTEPS, SimulationState, SimulationStateController } from './state';
+import { DEFAULT_EXPLOSION_INTENSITY } from './explosion';
+import { FALLOFF_IDS, GravityField, MAX_GRAVITY_WELLS } from './gravity';
+import { GESTURE_IDS, positionShader, velocityShader } from './gpuShaders';
+import { MAX_FINGERTIPS } from './fingertips';
+import { Morph, TRANSITION_IDS } from './morph';
+import { getTemplate } from '../utils/templates';
+
+/**
+ * GPGPU simulation backend. Positions and velocities live in float render
+ * targets and are integrated by fragment shaders; the renderer samples the
+ * position texture directly, so nothing is uploaded per frame.
+ * Gesture/state logic still runs on the CPU through SimulationStateController.
+ * Planets only act as gravity wells here; particles are not bound to them.
+ */
+export class GPUSimulation {
+  readonly count: number;
+  readonly textureSize: number;
+  // Static per-particle data for the render geometry
+  readonly colors: Float32Array;
+  readonly alphas: Float32Array; // Always 1: collisions (merging) stay on the CPU path
+  readonly references: Float32Array; // uv of each particle's texel
+  // Bumped whenever `colors` changes, so the renderer knows to re-upload it
+  colorsVersion = 0;
+
+  private readonly controller = new SimulationStateController();
+  private readonly compute: GPUComputationRenderer;
+  private readonly positionVariable: Variable;
+  private readonly velocityVariable: Variable;
+  private readonly targetTexture: THREE.DataTexture;
+  private readonly morphFrom: THREE.WebGLRenderTarget; // Positions when the morph started
+  private readonly targetShape = new TargetShape();
+  private morphing: Morph | null = null;
+  private readonly velocityUniforms: Record<string, THREE.IUniform>;
+  private readonly gravity = new GravityField();
+  private random: RandomFn;
+  private accumulator = 0;
+  private explosionIntensity = DEFAULT_EXPLOSION_INTENSITY;
+
+  // Features that only exist on the CPU path force a fallback
+  static supportsConfig(config: ParticleConfig): boolean {
+    return !config.collisionEnabled && !getTemplate(config.shape)?.emitter;
+  }
+
+  // Float render targets + vertex texture fetch are the hard requirements
+  static isSupported(renderer: THREE.WebGLRenderer): boolean {
+    return (
+      renderer.capabilities.isWebGL2 &&
+      renderer.capabilities.maxVertexTextures > 0 &&
+      renderer.extensions.has('EXT_color_buffer_float')
+    );
+  }
+
+  constructor(private readonly renderer: THREE.WebGLRenderer, count: number, seed = DEFAULT_SEED) {
+    this.count = count;
+    this.textureSize = Math.ceil(Math.sqrt(count));
+    this.random = createRandom(seed);
+
+    const size = this.textureSize;
+    this.colors = new Float32Array(count * 3);
+    this.alphas = new Float32Array(count).fill(1);
+    this.references = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+      this.references[i * 2] = ((i % size) + 0.5) / size;
+      this.references[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+    }
+
+    this.compute = new GPUComputationRenderer(size, size, renderer);
+    this.targetTexture = this.compute.createTexture();
+    this.morphFrom = this.compute.createRenderTarget(
+      size, size, THREE.ClampToEdgeWrapping, THREE.ClampToEdgeWrapping, THREE.NearestFilter, THREE.NearestFilter
+    );
+    this.positionVariable = this.compute.addVariable('texturePosition', positionShader, this.compute.createTexture());
+    this.velocityVariable = this.compute.addVariable('textureVelocity', velocityShader, this.compute.createTexture());
+    this.compute.setVariableDependencies(this.positionVariable, [this.positionVariable, this.velocityVariable]);
+    this.compute.setVariableDependencies(this.velocityVariable, [this.positionVariable, this.velocityVariable]);
+
+    this.velocityUniforms = this.velocityVariable.material.uniforms;
+    Object.assign(this.velocityUniforms, {
+      uDelta: { value: FIXED_DT },
+      uTime: { value: 0 },
+      uFriction: { value: 0.96 },
+      uSeed: { value: 0 },
+      uGesture: { value: GESTURE_IDS.IDLE },
+      uPlanetMode: { value: false },
+      uPlanetCenter: { value: new THREE.Vector3() },
+      uPlanetRadius: { value: 5 },
+      uCenter: { value: new THREE.Vector3() },
+      uLeft: { value: new THREE.Vector4() },
+      uRight: { value: new THREE.Vector4() },
+      uLeftPinched: { value: false },
+      uRightPinched: { value: false },
+      uInteractionRadius: { value: 12 },
+      uFingertips: { value: Array.from({ length: MAX_FINGERTIPS }, () => new THREE.Vector4()) },
+      uFingertipCount: { value: 0 },
+      uFingertipRadius: { value: 1 },
+      uExplosionAge: { value: 0 },
+      uExploding: { value: false },
+      uExplosionCenter: { value: new THREE.Vector3() },
+      uExplosionIntensity: { value: 1 },
+      textureTarget: { value: this.targetTexture },
+      uGravityScale: { value: 1 },
+      uGravityFalloff: { value: FALLOFF_IDS.linear },
+      uGravityDirection: { value: new THREE.Vector3() },
+      uWells: { value: Array.from({ length: MAX_GRAVITY_WELLS }, () => new THREE.Vector4()) },
+      uWellCount: { value: 0 },
+      uMorphing: { value: false },
+      uMorphTime: { value: 0 },
+      uMorphStyle: { value: TRANSITION_IDS.direct },
+      uMorphSpan: { value: 0 },
+      uCount: { value: count },
+      textureMorphFrom: { value: this.morphFrom.texture },
+    });
+
+    const error = this.compute.init();
+    if (error !== null) {
+      throw new Error(`GPU simulation init failed: ${error}`);
+    }
+  }
+
+  get state(): SimulationState {
+    return this.controller.state;
+  }
+
+  // Current position texture for the render material
+  get positionTexture(): THREE.Texture {
+    return this.compute.getCurrentRenderTarget(this.positionVariable).texture;
+  }
+
+  setConfig(config: ParticleConfig) {
+    const u = this.velocityUniforms;
+    u.uFriction.value = config.friction;
+    this.explosionIntensity = config.explosionIntensity;
+    this.controller.ringedPlanets = config.planetRings || !!getTemplate(config.shape)?.ringedPlanets;
+
+    const gravity = this.gravity;
+    gravity.configure(config);
+    u.uGravityScale.value = gravity.scale;
+    u.uGravityFalloff.value = FALLOFF_IDS[gravity.falloff];
+    (u.uGravityDirection.value as THREE.Vector3).set(gravity.direction.x, gravity.direction.y, gravity.direction.z);
+  }
+
+  command(command: SimulationCommand) {
+    this.controller.queueCommand(command);
+  }
+
+  // Generate the shape on the CPU (same seeding as the CPU backend) and upload it
+  reset(shape: ShapeSpec, color: string) {
+    const { count } = this;
+    const buffers: ParticleBuffers = {
+      count,
+      positions: new Float32Array(count * 3),
+      velocities: new Float32Array(count * 3),
+      originalPositions: new Float32Array(count * 3),
+      colors: this.colors,
+      alphas: this.alphas,
+      masses: new Float32Array(count),
+    };
+    this.targetShape.remember(shape, seedParticles(buffers, shape, color, this.random));
+    this.setMorphing(null);
+
+    this.packTexture(buffers.originalPositions, this.targetTexture);
+    this.targetTexture.needsUpdate = true;
+    this.upload(buffers.positions, this.positionVariable);
+    this.upload(buffers.velocities, this.velocityVariable);
+    this.colorsVersion++;
+  }
+
+  // Same contract as ParticleSimulation.morph(); the colors cross-fade on the CPU
+  morph(shape: ShapeSpec, color: string, transition: Transition, from?: ParticleSnapshot) {
+    const { count } = this;
+    let toColors: Float32Array;
+    if (from) {
+      this.reset(shape, color);
+      toColors = this.colors.slice();
+      const adopted = {
+        count,
+        positions: new Float32Array(count * 3),
+        velocities: new Float32Array(count * 3),
+        colors: this.colors,
+      };
+      adoptSnapshot(adopted, from, this.random);
+      this.upload(adopted.positions, this.positionVariable);
+      this.upload(adopted.velocities, this.velocityVariable);
+      this.controller.adopt(from.state);
+    } else {
+      const targets = this.targetShape.update(count, shape, this.random);
+      if (targets) {
+        this.packTexture(targets, this.targetTexture);
+        this.targetTexture.needsUpdate = true;
+      }
+      toColors = targetColors(count, this.targetShape.templateColors, color, this.random);
+    }
+    // Start from where the particles are now
+    this.compute.renderTexture(this.positionTexture, this.morphFrom);
+    this.setMorphing(new Morph(transition, null, this.colors.slice(), toColors, this.random));
+    this.colorsVersion++;
+  }
+
+  // Reads the positions and velocities back from the GPU
+  snapshot(): ParticleSnapshot {
+    return {
+      positions: this.readBack(this.positionVariable),
+      velocities: this.readBack(this.velocityVariable),
+      colors: this.colors.slice(),
+      bindings: new Int32Array(this.count), // Particles don't join planets here
+      state: structuredClone(this.controller.state),
+    };
+  }
+
+  // Current contents of `variable` (xyz per particle)
+  private readBack(variable: Variable): Float32Array {
+    const size = this.textureSize;
+    const pixels = new Float32Array(size * size * 4);
+    this.renderer.readRenderTargetPixels(this.compute.getCurrentRenderTarget(variable), 0, 0, size, size, pixels);
+    const values = new Float32Array(this.count * 3);
+    for (let i = 0; i < this.count; i++) {
+      values[i * 3] = pixels[i * 4];
+      values[i * 3 + 1] = pixels[i * 4 + 1];
+      values[i * 3 + 2] = pixels[i * 4 + 2];
+    }
+    return values;
+  }
+
+  private setMorphing(morph: Morph | null) {
+    this.morphing = morph;
+    const u = this.velocityUniforms;
+    u.uMorphing.value = morph !== null;
+    u.uMorphTime.value = 0;
+    if (morph) {
+      u.uMorphStyle.value = TRANSITION_IDS[morph.transition.style];
+      u.uMorphSpan.value = morph.span;
+    }
+  }
+
+  // Both render targets of `variable` start from `source` (xyz per particle)
+  private upload(source: Float32Array, variable: Variable) {
+    const texture = this.compute.createTexture();
+    this.packTexture(source, texture);
+    for (const renderTarget of variable.renderTargets) {
+      this.compute.renderTexture(texture, renderTarget);
+    }
+    texture.dispose();
+  }
+
+  // Same fixed-timestep contract as ParticleSimulation.step()
+  step(dt: number, handData: HandData): number {
+    this.accumulator = Math.min(this.accumulator + dt, FIXED_DT * MAX_SUBSTEPS);
+
+    let ticks = 0;
+    while (this.accumulator >= FIXED_DT) {
+      this.tick(FIXED_DT, handData);
+      this.accumulator -= FIXED_DT;
+      ticks++;
+    }
+    return ticks;
+  }
+
+  private tick(dt: number, handData: HandData) {
+    const frame = this.controller.advance(dt, handData);
+    const s = this.controller.state;
+    const u = this.velocityUniforms;
+
+    u.uDelta.value = dt;
+    u.uTime.value = s.time;
+    u.uSeed.value = this.random() * 100;
+    u.uGesture.value = GESTURE_IDS[frame.gesture];
+    u.uPlanetMode.value = s.planetMode;
+    (u.uPlanetCenter.value as THREE.Vector3).set(s.planetCenter.x, s.planetCenter.y, s.planetCenter.z);
+    u.uPlanetRadius.value = s.planetRadius;
+    (u.uCenter.value as THREE.Vector3).copy(frame.centerPos);
+    const left = u.uLeft.value as THREE.Vector4;
+    const right = u.uRight.value as THREE.Vector4;
+    if (frame.lPos) left.set(frame.lPos.x, frame.lPos.y, frame.lPos.z, 1);
+    else left.set(0, 0, 0, 0);
+    if (frame.rPos) right.set(frame.rPos.x, frame.rPos.y, frame.rPos.z, 1);
+    else right.set(0, 0, 0, 0);
+    u.uLeftPinched.value = frame.leftPinched;
+    u.uRightPinched.value = frame.rightPinched;
+    u.uInteractionRadius.value = frame.interactionRadius;
+    const fingertips = u.uFingertips.value as THREE.Vector4[];
+    for (let t = 0; t < frame.fingertipCount; t++) {
+      const tip = frame.fingertips[t];
+      fingertips[t].set(tip.x, tip.y, tip.z, tip.strength);
+    }
+    u.uFingertipCount.value = frame.fingertipCount;
+    u.uFingertipRadius.value = frame.fingertipRadius;
+    u.uExplosionAge.value = frame.explosionAge;
+    u.uExploding.value = frame.isExploding;
+    u.uExplosionIntensity.value = this.explosionIntensity * s.explosionStrength;
+    (u.uExplosionCenter.value as THREE.Vector3).set(s.explosionCenter.x, s.explosionCenter.y, s.explosionCenter.z);
+
+    // Configured wells first, then as many planets as still fit
+    const wells = u.uWells.value as THREE.Vector4[];
+    let wellCount = 0;
+    for (const well of this.gravity.wells) {
+      wells[wellCount++].set(well.x, well.y, well.z, well.mass);
+    }
+    for (const planet of s.planets) {
+      if (wellCount >= MAX_GRAVITY_WELLS) break;
+      wells[wellCount++].set(planet.position.x, planet.position.y, planet.position.z, planet.mass);
+    }
+    u.uWellCount.value = wellCount;
+
+    const morph = this.morphing;
+    if (morph) {
+      morph.advance(dt);
+      morph.blendColors(this.colors);
+      this.colorsVersion++;
+      u.uMorphTime.value = morph.time;
+    }
+
+    this.compute.compute();
+    if (morph?.done) this.setMorphing(null);
+  }
+
+  private packTexture(source: Float32Array, texture: THREE.DataTexture) {
+    const data = texture.image.data as Float32Array;
+    data.fill(0);
+    for (let i = 0; i < this.count; i++) {
+      data[i * 4] = source[i * 3];
+      data[i * 4 + 1] = source[i * 3 + 1];
+      data[i * 4 + 2] = source[i * 3 + 2];
+      data[i * 4 + 3] = 1;
+    }
+  }
+
+  dispose() {
+    this.compute.dispose();
+    this.targetTexture.dispose();
+    this.morphFrom.dispose();
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { HandData, HandState, ParticleConfig } from '../types';
+import { createEmptyHandData, measureHands } from '../input/handData';
+import { ParticleSimulation } from './ParticleSimulation';
+
+const hand = (x: number, y: number, isPinched: boolean): HandState => ({
+  x, y, z: 0, isOpen: !isPinched, isPinched, isFist: false, trackId: 1, confidence: 1, landmarks: null,
+  velocity: { x: 0, y: 0, z: 0 }, acceleration: { x: 0, y: 0, z: 0 },
+});
+
+// A few seconds of two hands moving through the built-in gestures
+const handSequence = (): HandData[] => {
+  const gestures: HandData['gesture'][] = ['IDLE', 'CIRCLE', 'COMPRESS', 'EXPAND', 'CONTROL', 'COLLAPSE', 'IDLE'];
+  const frames: HandData[] = [];
+  for (let f = 0; f < 280; f++) {
+    const gesture = gestures[Math.floor(f / 40)];
+    const data = createEmptyHandData();
+    data.left = hand(-3 + Math.sin(f / 10), 1, gesture === 'COMPRESS');
+    data.right = hand(3, Math.cos(f / 15), gesture === 'COMPRESS');
+    measureHands(data);
+    data.gesture = gesture;
+    frames.push(data);
+  }
+  return frames;
+};
+
+// Uneven frame times, as from requestAnimationFrame
+const frameTime = (f: number) => 0.011 + (f % 4) * 0.004;
+
+const run = (seed: number) => {
+  const simulation = new ParticleSimulation(2000, seed);
+  simulation.reset({ template: 'galaxy', params: {} }, '#00ffff');
+  handSequence().forEach((data, f) => simulation.step(frameTime(f), data));
+  return simulation;
+};
+
+const config: ParticleConfig = {
+  count: 2000,
+  color: '#00ffff',
+  size: 0.05,
+  gravityStrength: 0.5,
+  gravityFalloff: 'linear',
+  gravityDirection: { x: 0, y: 0, z: 0 },
+  gravityWells: [],
+  friction: 0.96,
+  shape: 'galaxy',
+  shapeParams: {},
+  collisionEnabled: true,
+  collisionMode: 'merge',
+  restitution: 0.5,
+  backend: 'cpu',
+  explosionIntensity: 1,
+  planetRings: false,
+  transition: { style: 'direct', duration: 1 },
+};
+
+describe('ParticleSimulation', () => {
+  it('produces identical buffers for the same seed and input', () => {
+    const a = run(7);
+    const b = run(7);
+    expect(b.positions).toEqual(a.positions);
+    expect(b.velocities).toEqual(a.velocities);
+    expect(b.colors).toEqual(a.colors);
+    expect(b.alphas).toEqual(a.alphas);
+    expect(b.state).toEqual(a.state);
+  });
+
+  it('depends on the seed', () => {
+    expect(run(8).positions).not.toEqual(run(7).positions);
+  });
+
+  it('brings merged particles back on a morph', () => {
+    const simulation = new ParticleSimulation(config.count, 7);
+    simulation.setConfig(config);
+    simulation.setCollisionBudget(config.count, 0);
+    simulation.reset({ template: 'galaxy', params: {} }, config.color);
+    const idle = createEmptyHandData();
+    for (let f = 0; f < 120 && !simulation.alphas.includes(0); f++) simulation.step(1 / 60, idle);
+    expect(simulation.alphas).toContain(0);
+
+    const alphasVersion = simulation.alphasVersion;
+    simulation.morph({ template: 'sphere', params: {} }, config.color, config.transition);
+    expect(simulation.alphas.every((alpha) => alpha === 1)).toBe(true);
+    expect(simulation.masses.every((mass) => mass === 1)).toBe(true);
+    expect(simulation.alphasVersion).toBeGreaterThan(alphasVersion);
+  });
+
+  it('keeps velocities and planets across a count change', () => {
+    const a = new ParticleSimulation(2000, 7);
+    a.reset({ template: 'galaxy', params: {} }, '#00ffff');
+    a.command({ type: 'spawnPlanet', position: { x: 0, y: 0, z: 0 } });
+    const idle = createEmptyHandData();
+    for (let f = 0; f < 30; f++) a.step(1 / 60, idle);
+    const [planet] = a.state.planets;
+    expect(planet).toBeDefined();
+
+    const from = a.snapshot();
+    const b = new ParticleSimulation(3000, 7);
+    b.morph({ template: 'galaxy', params: {} }, '#00ffff', { style: 'direct', duration: 1 }, from);
+    expect(b.velocities.subarray(0, from.velocities.length)).toEqual(from.velocities);
+    expect(b.state.planets).toEqual(a.state.planets);
+    expect(b.bindings.filter((id) => id === planet.id).length).toBeGreaterThan(
+      from.bindings.filter((id) => id === planet.id).length
+    );
+  });
+});
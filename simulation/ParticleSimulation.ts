@@ -0,0 +1,738 @@
+import * as THREE from 'three';
+import { HandData, ParticleConfig, Planet, ShapeSpec, SimulationCommand, Transition } from '../types';
+import { generateParticles } from '../utils/shapes';
+import { getTemplate, resolveTemplateParams, TemplateDefinition, TemplatePoints } from '../utils/templates';
+import { createRandom, RandomFn } from './random';
+import {
+  COLLISION_RADIUS,
+  CollisionOptions,
+  CollisionSolver,
+  DEFAULT_COLLISION_BUDGET_MS,
+  DEFAULT_MAX_COLLISION_PAIRS,
+} from './collisions';
+import { GravityField, PLANET_WELL_MASS } from './gravity';
+import { FireworksSystem } from './fireworks';
+import { DEFAULT_EXPLOSION_INTENSITY, EXPLOSION_WAVE_SPEED, EXPLOSION_WAVE_WIDTH } from './explosion';
+import {
+  PLANET_CAPTURE,
+  PLANET_INFLUENCE,
+  PLANET_PARTICLE_SHARE,
+  planetTarget,
+} from './planets';
+import { FIXED_DT, FrameContext, MAX_SUBSTEPS, SimulationState, SimulationStateController } from './state';
+import { Morph, MORPH_DRAG, MORPH_PULL } from './morph';
+
+export const DEFAULT_SEED = 1337;
+
+export interface ParticleBuffers {
+  count: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  originalPositions: Float32Array;
+  colors: Float32Array;
+  alphas: Float32Array; // Per-particle visibility, 0 = hidden
+  masses: Float32Array;
+}
+
+// The particles of a simulation about to be replaced (e.g. on a count
+// change), for the next one to start from
+export interface ParticleSnapshot {
+  positions: Float32Array;
+  velocities: Float32Array;
+  colors: Float32Array;
+  bindings: Int32Array; // See ParticleSimulation.bindings; all 0 from the GPU backend
+  state: SimulationState; // Planets and the CONTROL transform carry over too
+}
+
+// Buffers a worker's simulation runs in directly so the main thread can
+// snapshot them; only read on teardown, so they need no double buffering
+export interface SharedParticleBuffers {
+  velocities: Float32Array;
+  bindings: Int32Array;
+}
+
+// Slight color variation, around the template's own colors if it has them
+const writeColor = (
+  colors: Float32Array,
+  i: number,
+  templateColors: Float32Array | undefined,
+  base: THREE.Color,
+  random: RandomFn
+) => {
+  colors[i * 3] = (templateColors ? templateColors[i * 3] : base.r) + (random() - 0.5) * 0.1;
+  colors[i * 3 + 1] = (templateColors ? templateColors[i * 3 + 1] : base.g) + (random() - 0.5) * 0.1;
+  colors[i * 3 + 2] = (templateColors ? templateColors[i * 3 + 2] : base.b) + (random() - 0.5) * 0.1;
+};
+
+// Merged-away particles come back with a new shape
+const restoreMerged = ({ alphas, masses }: Pick<ParticleBuffers, 'alphas' | 'masses'>) => {
+  alphas.fill(1);
+  masses.fill(1);
+};
+
+// Fill particle buffers with a fresh shape: positions/targets from the template,
+// small random initial velocities and a slightly varied base color.
+// Returns the generated template points.
+export const seedParticles = (
+  buffers: ParticleBuffers,
+  shape: ShapeSpec,
+  color: string,
+  random: RandomFn
+): TemplatePoints => {
+  const { count, positions, originalPositions, velocities, colors } = buffers;
+  const points = generateParticles(count, shape, random);
+  const { positions: newPositions, colors: newColors } = points;
+  const colorObj = new THREE.Color(color);
+
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = newPositions[i * 3];
+    positions[i * 3 + 1] = newPositions[i * 3 + 1];
+    positions[i * 3 + 2] = newPositions[i * 3 + 2];
+
+    originalPositions[i * 3] = newPositions[i * 3];
+    originalPositions[i * 3 + 1] = newPositions[i * 3 + 1];
+    originalPositions[i * 3 + 2] = newPositions[i * 3 + 2];
+
+    velocities[i * 3] = (random() - 0.5) * 0.1;
+    velocities[i * 3 + 1] = (random() - 0.5) * 0.1;
+    velocities[i * 3 + 2] = (random() - 0.5) * 0.1;
+
+    writeColor(colors, i, newColors, colorObj, random);
+  }
+
+  restoreMerged(buffers);
+  return points;
+};
+
+// Base colors to morph to, varied like seedParticles()'
+export const targetColors = (
+  count: number,
+  templateColors: Float32Array | undefined,
+  color: string,
+  random: RandomFn
+): Float32Array => {
+  const colors = new Float32Array(count * 3);
+  const base = new THREE.Color(color);
+  for (let i = 0; i < count; i++) writeColor(colors, i, templateColors, base, random);
+  return colors;
+};
+
+// Takes over a snapshot's particles (but not its state); particles beyond its
+// count start as copies of random ones of its particles, so a growing cloud
+// buds from itself. `bindings` is left out where particles don't join planets.
+export const adoptSnapshot = (
+  buffers: Pick<ParticleBuffers, 'count' | 'positions' | 'velocities' | 'colors'> & { bindings?: Int32Array },
+  from: ParticleSnapshot,
+  random: RandomFn
+) => {
+  const previous = from.positions.length / 3;
+  if (previous === 0) return;
+  for (let i = 0; i < buffers.count; i++) {
+    const j = i < previous ? i : Math.floor(random() * previous);
+    for (let c = 0; c < 3; c++) {
+      buffers.positions[i * 3 + c] = from.positions[j * 3 + c];
+      buffers.velocities[i * 3 + c] = from.velocities[j * 3 + c];
+      buffers.colors[i * 3 + c] = from.colors[j * 3 + c];
+    }
+    if (buffers.bindings) buffers.bindings[i] = from.bindings[j];
+  }
+};
+
+/**
+ * The shape the targets were generated from, so that morphing to the same
+ * shape (a color change) keeps them. A re-registered template is a new shape.
+ */
+export class TargetShape {
+  private template: TemplateDefinition | undefined;
+  private params = '';
+  private shown = false;
+  // The template's own colors for the current targets
+  templateColors: Float32Array | undefined;
+
+  private key(shape: ShapeSpec) {
+    const template = getTemplate(shape.template);
+    return { template, params: template ? JSON.stringify(resolveTemplateParams(template, shape.params)) : '' };
+  }
+
+  remember(shape: ShapeSpec, points: TemplatePoints) {
+    const { template, params } = this.key(shape);
+    this.template = template;
+    this.params = params;
+    this.shown = true;
+    this.templateColors = points.colors;
+  }
+
+  // New targets for `shape`, or null if the current ones already are it
+  update(count: number, shape: ShapeSpec, random: RandomFn): Float32Array | null {
+    const { template, params } = this.key(shape);
+    if (this.shown && template === this.template && params === this.params) return null;
+    const points = generateParticles(count, shape, random);
+    this.remember(shape, points);
+    return points.positions;
+  }
+}
+
+/**
+ * Headless particle simulation. Owns the particle buffers, the simulation state
+ * and a seeded RNG, and advances on a fixed timestep so that the same sequence
+ * of `step(dt, handData)` calls always produces identical buffers.
+ * No DOM / WebGL access: it runs in the browser, a worker or Node alike.
+ */
+export class ParticleSimulation implements ParticleBuffers {
+  readonly count: number;
+  readonly positions: Float32Array;
+  readonly velocities: Float32Array;
+  readonly originalPositions: Float32Array; // Target shapes
+  readonly colors: Float32Array;
+  readonly alphas: Float32Array;
+  readonly masses: Float32Array;
+  readonly bindings: Int32Array; // Id of the planet a particle belongs to, 0 = free
+  // Bumped whenever the matching buffer changes outside of position integration,
+  // so renderers know when to re-upload it
+  colorsVersion = 0;
+  alphasVersion = 0;
+  private readonly controller = new SimulationStateController();
+  private readonly planetSlot = { x: 0, y: 0, z: 0 };
+
+  private random: RandomFn;
+  private accumulator = 0;
+  private friction = 0.96;
+  private explosionIntensity = DEFAULT_EXPLOSION_INTENSITY;
+  private readonly gravity = new GravityField();
+  private readonly collisions: CollisionSolver;
+  private fireworks: FireworksSystem | null = null; // Particle lifecycle, Fireworks template only
+  private readonly targetShape = new TargetShape();
+  private morphing: Morph | null = null;
+  private readonly anchor = { x: 0, y: 0, z: 0 };
+  private collisionsEnabled = false;
+  private collisionOptions: CollisionOptions = {
+    mode: 'inelastic',
+    restitution: 0.5,
+    radius: COLLISION_RADIUS,
+    maxPairs: DEFAULT_MAX_COLLISION_PAIRS,
+    budgetMs: DEFAULT_COLLISION_BUDGET_MS,
+  };
+
+  constructor(count: number, seed = DEFAULT_SEED, shared?: SharedParticleBuffers) {
+    this.count = count;
+    this.positions = new Float32Array(count * 3);
+    this.velocities = shared?.velocities ?? new Float32Array(count * 3);
+    this.originalPositions = new Float32Array(count * 3);
+    this.colors = new Float32Array(count * 3);
+    this.alphas = new Float32Array(count).fill(1);
+    this.masses = new Float32Array(count).fill(1);
+    this.bindings = shared?.bindings ?? new Int32Array(count);
+    this.random = createRandom(seed);
+    this.collisions = new CollisionSolver(count);
+  }
+
+  get state(): SimulationState {
+    return this.controller.state;
+  }
+
+  setConfig(config: ParticleConfig) {
+    this.friction = config.friction;
+    this.explosionIntensity = config.explosionIntensity;
+    this.gravity.configure(config);
+    this.collisionsEnabled = config.collisionEnabled;
+    this.collisionOptions.mode = config.collisionMode;
+    this.collisionOptions.restitution = config.restitution;
+    this.controller.ringedPlanets = config.planetRings || !!getTemplate(config.shape)?.ringedPlanets;
+  }
+
+  command(command: SimulationCommand) {
+    this.controller.queueCommand(command);
+  }
+
+  // Override the collision work caps (e.g. budgetMs = 0 for reproducible runs)
+  setCollisionBudget(maxPairs: number, budgetMs: number) {
+    this.collisionOptions.maxPairs = maxPairs;
+    this.collisionOptions.budgetMs = budgetMs;
+  }
+
+  // Re-seed the RNG; call before reset() to reproduce a run from scratch
+  setSeed(seed: number) {
+    this.random = createRandom(seed);
+  }
+
+  // Initialize particles based on shape. Planets survive a reset: their
+  // particles are re-seeded with the rest and spiral back in.
+  reset(shape: ShapeSpec, color: string) {
+    this.targetShape.remember(shape, seedParticles(this, shape, color, this.random));
+    this.morphing = null;
+    if (getTemplate(shape.template)?.emitter) {
+      this.fireworks ??= new FireworksSystem(this.count);
+      this.fireworks.reset(this, color);
+    } else {
+      this.fireworks = null;
+    }
+    this.colorsVersion++;
+    this.alphasVersion++;
+  }
+
+  /**
+   * Move the particles to a new shape and color over `transition` instead of
+   * resetting them. Only the targets change (and not even those if the shape
+   * is the same), so particles keep flying and can still be played with.
+   * `from`: particles and state of a replaced simulation to start from, e.g.
+   * when the count changed.
+   */
+  morph(shape: ShapeSpec, color: string, transition: Transition, from?: ParticleSnapshot) {
+    // Fireworks manage their particles themselves; switching to or from them resets
+    if (this.fireworks || getTemplate(shape.template)?.emitter) {
+      this.reset(shape, color);
+      return;
+    }
+
+    let toColors: Float32Array;
+    if (from) {
+      this.reset(shape, color);
+      toColors = this.colors.slice();
+      adoptSnapshot(this, from, this.random);
+      this.controller.adopt(from.state);
+      // Planets from a backend that doesn't bind particles gather their own
+      for (const planet of this.state.planets) {
+        if (!this.bindings.includes(planet.id)) this.capturePlanet(planet);
+      }
+    } else {
+      const targets = this.targetShape.update(this.count, shape, this.random);
+      if (targets) this.originalPositions.set(targets);
+      toColors = targetColors(this.count, this.targetShape.templateColors, color, this.random);
+      // Absorbed particles reappear where they were absorbed and follow their anchors in
+      restoreMerged(this);
+      this.alphasVersion++;
+    }
+    this.morphing = new Morph(transition, this.positions.slice(), this.colors.slice(), toColors, this.random);
+    this.colorsVersion++;
+  }
+
+  // Copies of the current particles and state, for a simulation replacing this one
+  snapshot(): ParticleSnapshot {
+    return {
+      positions: this.positions.slice(),
+      velocities: this.velocities.slice(),
+      colors: this.colors.slice(),
+      bindings: this.bindings.slice(),
+      state: structuredClone(this.state),
+    };
+  }
+
+  /**
+   * Advance the simulation by `dt` seconds of wall time. Time is accumulated and
+   * consumed in FIXED_DT ticks; returns the number of ticks run (0 = buffers unchanged).
+   */
+  step(dt: number, handData: HandData): number {
+    this.accumulator = Math.min(this.accumulator + dt, FIXED_DT * MAX_SUBSTEPS);
+
+    let ticks = 0;
+    while (this.accumulator >= FIXED_DT) {
+      this.tick(FIXED_DT, handData);
+      this.accumulator -= FIXED_DT;
+      ticks++;
+    }
+    return ticks;
+  }
+
+  private tick(dt: number, handData: HandData) {
+    const frame = this.controller.advance(dt, handData);
+    for (const planet of frame.destroyedPlanets) {
+      this.releasePlanet(planet);
+    }
+    for (const planet of frame.spawnedPlanets) {
+      this.capturePlanet(planet);
+    }
+    if (this.morphing) {
+      this.morphing.advance(dt);
+      this.morphing.blendColors(this.colors);
+      this.colorsVersion++;
+    }
+    if (this.fireworks) {
+      // Sparks fade every tick
+      this.fireworks.update(dt, frame, this, this.random);
+      this.colorsVersion++;
+      this.alphasVersion++;
+    }
+    this.integrate(dt, frame);
+    if (this.morphing?.done) this.morphing = null;
+
+    if (this.collisionsEnabled) {
+      const stats = this.collisions.solve(this, this.collisionOptions);
+      if (stats.merged > 0) this.alphasVersion++;
+    }
+  }
+
+  // Bind free particles around a new planet to it, up to its particle share
+  private capturePlanet(planet: Planet) {
+    const { count, positions, bindings, alphas } = this;
+    const { x, y, z } = planet.position;
+    const captureRadius = planet.radius * PLANET_CAPTURE;
+    const captureSq = captureRadius * captureRadius;
+    let remaining = Math.floor(count * PLANET_PARTICLE_SHARE);
+
+    for (let i = 0; i < count && remaining > 0; i++) {
+      if (bindings[i] !== 0 || alphas[i] <= 0) continue;
+      const dx = positions[i * 3] - x;
+      const dy = positions[i * 3 + 1] - y;
+      const dz = positions[i * 3 + 2] - z;
+      if (dx*dx + dy*dy + dz*dz < captureSq) {
+        bindings[i] = planet.id;
+        remaining--;
+      }
+    }
+  }
+
+  // Free a destroyed planet's particles with an outward kick
+  private releasePlanet(planet: Planet) {
+    const { count, positions, velocities, bindings, alphas, fireworks } = this;
+    const { x, y, z } = planet.position;
+    const random = this.random;
+
+    for (let i = 0; i < count; i++) {
+      if (bindings[i] !== planet.id) continue;
+      bindings[i] = 0;
+      fireworks?.release(i, alphas);
+      const idx = i * 3;
+      const dx = positions[idx] - x;
+      const dy = positions[idx + 1] - y;
+      const dz = positions[idx + 2] - z;
+      const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.001;
+      const kick = 0.3 + random() * 0.4;
+      velocities[idx] += (dx / d) * kick;
+      velocities[idx + 1] += (dy / d) * kick;
+      velocities[idx + 2] += (dz / d) * kick;
+    }
+  }
+
+  private integrate(dt: number, frame: FrameContext) {
+    const { count, positions, velocities, originalPositions, bindings, alphas } = this;
+    const fireworks = this.fireworks;
+    const morphing = this.morphing;
+    const anchor = this.anchor;
+    const random = this.random;
+    const s = this.state;
+    const {
+      gesture, lPos, rPos, centerPos, leftPinched, rightPinched,
+      interactionRadius, fingertips, fingertipCount, fingertipRadius, explosionAge, isExploding,
+    } = frame;
+
+    // --- PARTICLE LOOP ---
+    const damping = this.friction;
+    const returnForce = 0.5 * dt;
+
+    // Check if either hand is pinched
+    const anyPinched = leftPinched || rightPinched;
+
+    // Gravity: every attraction below is scaled by the gravity strength
+    const gravity = this.gravity;
+    const G = gravity.scale;
+    const gx = gravity.direction.x * G * dt;
+    const gy = gravity.direction.y * G * dt;
+    const gz = gravity.direction.z * G * dt;
+    const wells = gravity.wells;
+    const planets = s.planets;
+    const slot = this.planetSlot;
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      let px = positions[idx];
+      let py = positions[idx + 1];
+      let pz = positions[idx + 2];
+
+      let vx = velocities[idx];
+      let vy = velocities[idx + 1];
+      let vz = velocities[idx + 2];
+
+      // 0. PLANET MEMBERS - spiral into their slot and ride along with the planet
+      const planetId = bindings[i];
+      if (planetId !== 0) {
+        let planet: Planet | undefined;
+        for (let p = 0; p < planets.length; p++) {
+          if (planets[p].id === planetId) planet = planets[p];
+        }
+        if (planet) {
+          planetTarget(i, planet, slot);
+          const dx = slot.x - px;
+          const dy = slot.y - py;
+          const dz = slot.z - pz;
+          // Spring toward the slot plus a swirl around it, heavily damped.
+          // The swirl adds energy every turn, so it must stay well below the spring.
+          const spring = 4 * dt;
+          const swirl = 1.5 * dt;
+          vx = (vx * damping + dx * spring - dz * swirl) * 0.85;
+          vy = (vy * damping + dy * spring) * 0.85;
+          vz = (vz * damping + dz * spring + dx * swirl) * 0.85;
+
+          positions[idx] = px + vx;
+          positions[idx + 1] = py + vy;
+          positions[idx + 2] = pz + vz;
+          velocities[idx] = vx;
+          velocities[idx + 1] = vy;
+          velocities[idx + 2] = vz;
+          continue;
+        }
+      }
+
+      // Dead fireworks particles wait in the free list
+      if (fireworks && alphas[i] <= 0) continue;
+
+      // 1. Base Inertia & Damping
+      const drag = fireworks ? fireworks.drags[i] : damping;
+      vx *= drag;
+      vy *= drag;
+      vz *= drag;
+
+      // 2. Global gravity: uniform field + point wells
+      vx += gx;
+      vy += gy;
+      vz += gz;
+      for (let w = 0; w < wells.length; w++) {
+        const well = wells[w];
+        const dx = well.x - px;
+        const dy = well.y - py;
+        const dz = well.z - pz;
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.001;
+        const pull = gravity.attraction(well.mass, d) * dt;
+        vx += (dx / d) * pull;
+        vy += (dy / d) * pull;
+        vz += (dz / d) * pull;
+      }
+      // Planets pull free particles within their influence radius
+      for (let p = 0; p < planets.length; p++) {
+        const planet = planets[p];
+        const dx = planet.position.x - px;
+        const dy = planet.position.y - py;
+        const dz = planet.position.z - pz;
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.001;
+        const influence = planet.radius * PLANET_INFLUENCE;
+        if (d < influence) {
+          const pull = gravity.attraction(planet.mass, d) * (1 - d / influence) * dt;
+          vx += (dx / d) * pull;
+          vy += (dy / d) * pull;
+          vz += (dz / d) * pull;
+        }
+      }
+
+      // 3. Shape Holding Force (only when IDLE, not during active gestures).
+      // Fireworks have no shape to return to: sparks fall instead.
+      if (fireworks) {
+          vy -= fireworks.falls[i] * dt;
+      } else if (morphing && !s.planetMode && !isExploding && gesture === 'IDLE') {
+          // Morphing: follow the anchor on its way to the new target
+          morphing.anchor(i, originalPositions, anchor);
+          const pull = MORPH_PULL * dt;
+          vx = (vx + (anchor.x - px) * pull) * MORPH_DRAG;
+          vy = (vy + (anchor.y - py) * pull) * MORPH_DRAG;
+          vz = (vz + (anchor.z - pz) * pull) * MORPH_DRAG;
+      } else if (!s.planetMode && !isExploding && gesture === 'IDLE') {
+          const tx = originalPositions[idx];
+          const ty = originalPositions[idx + 1];
+          const tz = originalPositions[idx + 2];
+          vx += (tx - px) * returnForce * 0.6;
+          vy += (ty - py) * returnForce * 0.6;
+          vz += (tz - pz) * returnForce * 0.6;
+      }
+
+      // 4. PLANET MODE - Create a proper 3D FILLED SPHERE
+      if (s.planetMode && gesture === 'CIRCLE') {
+        // Planet center - use X,Y from hands, Z at scene center
+        const planetX = s.planetCenter.x;
+        const planetY = s.planetCenter.y;
+        const planetZ = 0;
+
+        const dx = planetX - px;
+        const dy = planetY - py;
+        const dz = planetZ - pz;
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.001;
+
+        // Target sphere radius, from the ring
+        const targetRadius = s.planetRadius;
+
+        // MAIN GRAVITATIONAL PULL - Always pull toward center
+        const pullForce = gravity.attraction(PLANET_WELL_MASS, d) * dt;
+
+        vx += (dx / d) * pullForce;
+        vy += (dy / d) * pullForce;
+        vz += (dz / d) * pullForce;
+
+        // SPHERE VOLUME DISTRIBUTION
+        // Push particles to fill the volume, not just the surface
+        if (d < targetRadius) {
+          // Inside the sphere - apply gentle random forces to distribute
+          const distributeForce = 5 * dt;
+
+          // Random direction based on particle ID for consistent distribution
+          const randX = Math.sin(i * 1.1 + s.time * 0.5);
+          const randY = Math.cos(i * 1.3 + s.time * 0.3);
+          const randZ = Math.sin(i * 1.7 + s.time * 0.4);
+
+          vx += randX * distributeForce;
+          vy += randY * distributeForce;
+          vz += randZ * distributeForce;
+
+          // Push away from center if too close (prevent point collapse)
+          if (d < targetRadius * 0.2) {
+            const pushOut = 30 * dt;
+            vx -= (dx / d) * pushOut;
+            vy -= (dy / d) * pushOut;
+            vz -= (dz / d) * pushOut;
+          }
+        } else {
+          // Outside the sphere - pull in faster
+          const extraPull = 100 * G * dt / (d + 1);
+          vx += (dx / d) * extraPull;
+          vy += (dy / d) * extraPull;
+          vz += (dz / d) * extraPull;
+        }
+
+        // GENTLE SWIRL - much slower, just for visual appeal, won't create ring
+        const gentleSwirl = 3 * dt;
+        vx += -dy * gentleSwirl * 0.1;
+        vy += dx * gentleSwirl * 0.1;
+
+        // Z-AXIS SPREAD - push particles into Z depth to prevent flat plane
+        const zSpread = (Math.sin(i * 0.1 + s.time) * 0.5 + 0.5) * targetRadius;
+        const targetZ = planetZ + (zSpread - targetRadius * 0.5);
+        const zDiff = targetZ - pz;
+        vz += zDiff * 3 * dt;
+
+        // Add controlled noise for organic look
+        const noise = 2 * dt;
+        vx += (random() - 0.5) * noise;
+        vy += (random() - 0.5) * noise;
+        vz += (random() - 0.5) * noise;
+      }
+      // 5. COMPRESS - Pull particles toward hand positions when pinching
+      else if (gesture === 'COMPRESS' && anyPinched) {
+        // Pull toward the center point between hands (or single hand)
+        const dx = centerPos.x - px;
+        const dy = centerPos.y - py;
+        const dz = centerPos.z - pz;
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.1;
+
+        const pullForce = 50 * G * dt / (d + 0.3);
+        vx += dx * pullForce;
+        vy += dy * pullForce;
+        vz += dz * pullForce;
+      }
+      // 6. EXPAND - Scatter particles outward when releasing pinch
+      else if (gesture === 'EXPAND') {
+        const dx = px - centerPos.x;
+        const dy = py - centerPos.y;
+        const dz = pz - centerPos.z;
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.1;
+
+        const pushForce = 35 * dt;
+        vx += (dx / d) * pushForce;
+        vy += (dy / d) * pushForce;
+        vz += (dz / d) * pushForce;
+
+        // Add some randomness for scatter effect
+        vx += (random() - 0.5) * 15 * dt;
+        vy += (random() - 0.5) * 15 * dt;
+        vz += (random() - 0.5) * 15 * dt;
+      }
+      // 7. Hand influence during IDLE (subtle interaction)
+      else if (gesture === 'IDLE') {
+        // Left Hand interaction
+        if (lPos) {
+          const dx = lPos.x - px;
+          const dy = lPos.y - py;
+          const dz = lPos.z - pz;
+          const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.1;
+
+          if (d < interactionRadius) {
+            // Pinched = attract, Open = gentle repel
+            const baseForce = leftPinched ? 25.0 * G : -8.0;
+            const falloff = Math.max(0, 1 - (d / interactionRadius));
+            const f = (baseForce * falloff * dt) / (d + 0.3);
+            vx += dx * f;
+            vy += dy * f;
+            vz += dz * f;
+          }
+        }
+
+        // Right Hand interaction
+        if (rPos) {
+          const dx = rPos.x - px;
+          const dy = rPos.y - py;
+          const dz = rPos.z - pz;
+          const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.1;
+
+          if (d < interactionRadius) {
+            const baseForce = rightPinched ? 25.0 * G : -8.0;
+            const falloff = Math.max(0, 1 - (d / interactionRadius));
+            const f = (baseForce * falloff * dt) / (d + 0.3);
+            vx += dx * f;
+            vy += dy * f;
+            vz += dz * f;
+          }
+        }
+      }
+
+      // 7b. Fingertips: small per-finger fields to comb particles with, in every gesture
+      for (let t = 0; t < fingertipCount; t++) {
+        const tip = fingertips[t];
+        const dx = tip.x - px;
+        const dy = tip.y - py;
+        const dz = tip.z - pz;
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.05;
+        if (d < fingertipRadius) {
+          const baseForce = tip.strength > 0 ? tip.strength * G : tip.strength;
+          const falloff = 1 - d / fingertipRadius;
+          const f = (baseForce * falloff * dt) / (d + 0.3);
+          vx += dx * f;
+          vy += dy * f;
+          vz += dz * f;
+        }
+      }
+
+      // 8. EXPLOSION effect - shockwave expanding from where COLLAPSE triggered
+      if (isExploding) {
+          const dx = px - s.explosionCenter.x;
+          const dy = py - s.explosionCenter.y;
+          const dz = pz - s.explosionCenter.z;
+          const d = Math.sqrt(dx*dx + dy*dy + dz*dz) + 0.001;
+
+          const waveRadius = explosionAge * EXPLOSION_WAVE_SPEED;
+          const waveWidth = EXPLOSION_WAVE_WIDTH;
+          const distToWave = Math.abs(d - waveRadius);
+
+          if (distToWave < waveWidth) {
+              const waveFalloff = 1 - (distToWave / waveWidth);
+              const blast = (120 * this.explosionIntensity * s.explosionStrength * dt * waveFalloff) / (d + 0.5);
+              vx += (dx/d) * blast;
+              vy += (dy/d) * blast;
+              vz += (dz/d) * blast;
+
+              const turbulence = 40 * this.explosionIntensity * s.explosionStrength * dt * waveFalloff;
+              vx += (random()-0.5) * turbulence;
+              vy += (random()-0.5) * turbulence;
+              vz += (random()-0.5) * turbulence;
+          }
+      }
+
+      // Velocity clamping
+      const maxVel = 2.5;
+      const velMag = Math.sqrt(vx*vx + vy*vy + vz*vz);
+      if (velMag > maxVel) {
+          const scale = maxVel / velMag;
+          vx *= scale;
+          vy *= scale;
+          vz *= scale;
+      }
+
+      // Update positions
+      px += vx;
+      py += vy;
+      pz += vz;
+
+      positions[idx] = px;
+      positions[idx + 1] = py;
+      positions[idx + 2] = pz;
+
+      velocities[idx] = vx;
+      velocities[idx + 1] = vy;
+      velocities[idx + 2] = vz;
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { HandData, ParticleConfig, ShapeSpec, SimulationCommand, Transition } from '../types';
+import { DEFAULT_SEED, ParticleSimulation, ParticleSnapshot } from './ParticleSimulation';
+import { SimulationState, createSimulationState } from './state';
+import { SimulationInitMessage, SimulationRequest, SimulationResponse } from './messages';
+import { getTemplateSource, TemplateSource } from '../utils/templateSources';
+
+export interface BufferChanges {
+  positions: boolean;
+  colors: boolean;
+  alphas: boolean;
+}
+
+/**
+ * What the renderer talks to. Either runs the simulation inline on the main
+ * thread or drives it in a worker; the render side can't tell the difference.
+ */
+export interface SimulationBackend {
+  readonly kind: 'main-thread' | 'worker';
+  readonly count: number;
+  // May point at a different array after step() (worker double buffering)
+  readonly positions: Float32Array;
+  readonly colors: Float32Array;
+  readonly alphas: Float32Array;
+  readonly state: SimulationState;
+  setConfig(config: ParticleConfig): void;
+  reset(shape: ShapeSpec, color: string): void;
+  // Flies the particles to a new shape/color; `from` seeds them from a replaced backend
+  morph(shape: ShapeSpec, color: string, transition: Transition, from?: ParticleSnapshot): void;
+  snapshot(): ParticleSnapshot;
+  // Takes effect on the next tick
+  command(command: SimulationCommand): void;
+  // Returns which buffers changed since the previous call
+  step(dt: number, handData: HandData): BufferChanges;
+  dispose(): void;
+}
+
+class MainThreadSimulation implements SimulationBackend {
+  readonly kind = 'main-thread';
+  private simulation: ParticleSimulation;
+  private colorsVersion = -1;
+  private alphasVersion = -1;
+
+  constructor(count: number, seed: number) {
+    this.simulation = new ParticleSimulation(count, seed);
+  }
+
+  get count() { return this.simulation.count; }
+  get positions() { return this.simulation.positions; }
+  get colors() { return this.simulation.colors; }
+  get alphas() { return this.simulation.alphas; }
+  get state() { return this.simulation.state; }
+
+  setConfig(config: ParticleConfig) {
+    this.simulation.setConfig(config);
+  }
+
+  reset(shape: ShapeSpec, color: string) {
+    this.simulation.reset(shape, color);
+  }
+
+  morph(shape: ShapeSpec, color: string, transition: Transition, from?: ParticleSnapshot) {
+    this.simulation.morph(shape, color, transition, from);
+  }
+
+  snapshot() {
+    return this.simulation.snapshot();
+  }
+
+  command(command: SimulationCommand) {
+    this.simulation.command(command);
+  }
+
+  step(dt: number, handData: HandData) {
+    const sim = this.simulation;
+    const ticks = sim.step(dt, handData);
+    const colors = sim.colorsVersion !== this.colorsVersion;
+    const alphas = sim.alphasVersion !== this.alphasVersion;
+    this.colorsVersion = sim.colorsVersion;
+    this.alphasVersion = sim.alphasVersion;
+    // A reset rewrites positions too, even if no tick ran yet
+    return { positions: ticks > 0 || colors, colors, alphas };
+  }
+
+  dispose() {}
+}
+
+class WorkerSimulation implements SimulationBackend {
+  readonly kind = 'worker';
+  readonly count: number;
+  readonly colors: Float32Array;
+  readonly alphas: Float32Array;
+  state: SimulationState = createSimulationState();
+
+  private worker: Worker;
+  private port: MessagePort;
+  private positionFrames: [Float32Array, Float32Array];
+  private velocities: Float32Array;
+  private bindings: Int32Array;
+  private frontFrame: 0 | 1 = 0;
+  private pendingDt = 0; // Frame time accumulated while the worker is busy
+  private inFlight = false;
+  private changes: BufferChanges = { positions: false, colors: false, alphas: false };
+  private sentSources = new Map<string, TemplateSource>();
+
+  constructor(count: number, seed: number, onError: (error: unknown) => void) {
+    this.count = count;
+    const bytes = count * 3 * Float32Array.BYTES_PER_ELEMENT;
+    const frames: [SharedArrayBuffer, SharedArrayBuffer] = [new SharedArrayBuffer(bytes), new SharedArrayBuffer(bytes)];
+    const colors = new SharedArrayBuffer(bytes);
+    const alphas = new SharedArrayBuffer(count * Float32Array.BYTES_PER_ELEMENT);
+    const velocities = new SharedArrayBuffer(bytes);
+    const bindings = new SharedArrayBuffer(count * Int32Array.BYTES_PER_ELEMENT);
+    this.positionFrames = [new Float32Array(frames[0]), new Float32Array(frames[1])];
+    this.colors = new Float32Array(colors);
+    this.alphas = new Float32Array(alphas);
+    this.velocities = new Float32Array(velocities);
+    this.bindings = new Int32Array(bindings);
+
+    const channel = new MessageChannel();
+    this.port = channel.port1;
+    this.port.onmessage = (e: MessageEvent<SimulationResponse>) => this.handleResponse(e.data);
+    this.port.onmessageerror = () => onError(new Error('Unreadable message from the simulation worker.'));
+
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    // The script failed to load, or threw (e.g. during init): nothing will be simulated
+    this.worker.onerror = (e) => {
+      e.preventDefault();
+      onError(e.error ?? new Error(e.message || 'The simulation worker failed.'));
+    };
+    const init: SimulationInitMessage = {
+      type: 'init',
+      count,
+      seed,
+      port: channel.port2,
+      positionFrames: frames,
+      colors,
+      alphas,
+      velocities,
+      bindings,
+    };
+    this.worker.postMessage(init, [channel.port2]);
+  }
+
+  get positions() {
+    return this.positionFrames[this.frontFrame];
+  }
+
+  private send(message: SimulationRequest) {
+    this.port.postMessage(message);
+  }
+
+  private handleResponse(message: SimulationResponse) {
+    switch (message.type) {
+      case 'reset':
+        this.frontFrame = message.frame;
+        this.changes = { positions: true, colors: true, alphas: true };
+        break;
+
+      case 'stepped':
+        this.inFlight = false;
+        this.state = message.state;
+        if (message.ticks > 0) {
+          // The worker finished writing this frame and moves on to the other one
+          this.frontFrame = message.frame;
+          this.changes.positions = true;
+        }
+        this.changes.colors ||= message.colors;
+        this.changes.alphas ||= message.alphas;
+        break;
+    }
+  }
+
+  setConfig(config: ParticleConfig) {
+    this.send({ type: 'config', config });
+  }
+
+  // Templates made from user data only exist on this thread; the worker gets their source first
+  private sendTemplateSource(id: string) {
+    const source = getTemplateSource(id);
+    if (source && this.sentSources.get(id) !== source) {
+      this.send({ type: 'template', source });
+      this.sentSources.set(id, source);
+    }
+  }
+
+  reset(shape: ShapeSpec, color: string) {
+    this.sendTemplateSource(shape.template);
+    this.send({ type: 'reset', shape, color });
+  }
+
+  morph(shape: ShapeSpec, color: string, transition: Transition, from?: ParticleSnapshot) {
+    this.sendTemplateSource(shape.template);
+    this.send({ type: 'morph', shape, color, transition, from });
+  }
+
+  // What is on screen: the last published frame. Velocities and bindings are
+  // read live, so they may be a tick ahead of it.
+  snapshot() {
+    return {
+      positions: this.positions.slice(),
+      velocities: this.velocities.slice(),
+      colors: this.colors.slice(),
+      bindings: this.bindings.slice(),
+      state: structuredClone(this.state),
+    };
+  }
+
+  command(command: SimulationCommand) {
+    this.send({ type: 'command', command });
+  }
+
+  step(dt: number, handData: HandData) {
+    this.pendingDt += dt;
+    // Only one step in flight: if the worker falls behind, time is batched
+    // into the next request instead of queueing up messages.
+    if (!this.inFlight) {
+      this.inFlight = true;
+      this.send({ type: 'step', dt: this.pendingDt, handData });
+      this.pendingDt = 0;
+    }
+
+    const changed = this.changes;
+    this.changes = { positions: false, colors: false, alphas: false };
+    return changed;
+  }
+
+  dispose() {
+    this.port.close();
+    this.worker.terminate();
+  }
+}
+
+// SharedArrayBuffer is only exposed on cross-origin isolated pages (COOP/COEP headers)
+export const canUseWorkerSimulation = () =>
+  typeof SharedArrayBuffer !== 'undefined' &&
+  typeof Worker !== 'undefined' &&
+  globalThis.crossOriginIsolated === true;
+
+export interface SimulationBackendOptions {
+  seed?: number;
+  useWorker?: boolean; // False after a worker failed, to stay on the main thread
+  // A worker can also fail after it was created (it didn't load, or threw);
+  // the caller should then replace the backend with one with `useWorker: false`
+  onWorkerError?: (error: unknown) => void;
+}
+
+export const createSimulationBackend = (
+  count: number,
+  { seed = DEFAULT_SEED, useWorker = true, onWorkerError = () => {} }: SimulationBackendOptions = {}
+): SimulationBackend => {
+  if (useWorker && canUseWorkerSimulation()) {
+    try {
+      return new WorkerSimulation(count, seed, onWorkerError);
+    } catch (err) {
+      console.warn('Worker simulation unavailable, falling back to main thread:', err);
+    }
+  }
+  return new MainThreadSimulation(count, seed);
+};
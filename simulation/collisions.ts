@@ -0,0 +1,266 @@
+import { CollisionMode } from '../types';
+
+// Contact radius of a single particle, in scene units
+export const COLLISION_RADIUS = 0.12;
+// Narrow-phase candidate pairs tested per step before the solver gives up
+export const DEFAULT_MAX_COLLISION_PAIRS = 150000;
+// Wall-clock budget per step in ms (0 = unlimited). Hitting it trades
+// determinism for frame rate; use 0 for reproducible runs.
+export const DEFAULT_COLLISION_BUDGET_MS = 4;
+
+export interface CollisionOptions {
+  mode: CollisionMode;
+  restitution: number; // Used by 'inelastic': 0 = sticky, 1 = elastic
+  radius: number;
+  maxPairs: number;
+  budgetMs: number;
+}
+
+export interface CollisionBuffers {
+  count: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  alphas: Float32Array; // 0 = hidden (merged away), skipped entirely
+  masses: Float32Array;
+}
+
+export interface CollisionStats {
+  pairsTested: number;
+  contacts: number;
+  merged: number;
+  truncated: boolean; // Ran out of pair or time budget before visiting every particle
+}
+
+// Large primes for spatial hashing (Teschner et al. 2003)
+const HASH_X = 73856093;
+const HASH_Y = 19349663;
+const HASH_Z = 83492791;
+
+/**
+ * Uniform-grid broad phase over an unbounded scene: cells are hashed into a
+ * fixed-size table and particles are bucketed with a counting sort, so a
+ * rebuild is O(n) with no allocations after construction.
+ */
+export class SpatialHash {
+  readonly tableSize: number;
+  cellSize = 1;
+  readonly cellStart: Int32Array; // Bucket b owns entries[cellStart[b] .. cellStart[b + 1])
+  readonly entries: Int32Array;   // Particle indices sorted by bucket
+  private readonly bucketOf: Int32Array;
+
+  constructor(capacity: number) {
+    let size = 1;
+    while (size < capacity * 2) size <<= 1;
+    this.tableSize = size;
+    this.cellStart = new Int32Array(size + 1);
+    this.entries = new Int32Array(capacity);
+    this.bucketOf = new Int32Array(capacity);
+  }
+
+  private invCellSize = 1;
+
+  cellCoord(value: number): number {
+    return Math.floor(value * this.invCellSize);
+  }
+
+  bucket(ix: number, iy: number, iz: number): number {
+    return ((Math.imul(ix, HASH_X) ^ Math.imul(iy, HASH_Y) ^ Math.imul(iz, HASH_Z)) >>> 0) & (this.tableSize - 1);
+  }
+
+  build(positions: Float32Array, alphas: Float32Array, count: number, cellSize: number) {
+    const { cellStart, entries, bucketOf, tableSize } = this;
+    this.cellSize = cellSize;
+    this.invCellSize = 1 / cellSize;
+    cellStart.fill(0);
+
+    // 1. Count particles per bucket (stored one slot to the right)
+    let alive = 0;
+    for (let i = 0; i < count; i++) {
+      if (alphas[i] <= 0) {
+        bucketOf[i] = -1;
+        continue;
+      }
+      const idx = i * 3;
+      const b = this.bucket(
+        this.cellCoord(positions[idx]),
+        this.cellCoord(positions[idx + 1]),
+        this.cellCoord(positions[idx + 2])
+      );
+      bucketOf[i] = b;
+      cellStart[b + 1]++;
+      alive++;
+    }
+
+    // 2. Prefix sum: cellStart[b + 1] = end of bucket b
+    for (let b = 0; b < tableSize; b++) {
+      cellStart[b + 1] += cellStart[b];
+    }
+
+    // 3. Scatter back-to-front, decrementing each bucket's end down to its start
+    for (let i = count - 1; i >= 0; i--) {
+      const b = bucketOf[i];
+      if (b >= 0) entries[--cellStart[b + 1]] = i;
+    }
+
+    // 4. cellStart[b + 1] now holds the start of bucket b; shift into place
+    for (let b = 0; b < tableSize; b++) {
+      cellStart[b] = cellStart[b + 1];
+    }
+    cellStart[tableSize] = alive;
+  }
+}
+
+/**
+ * Particle-particle collisions: spatial hash broad phase, sphere-sphere narrow
+ * phase with impulse response. Work per step is capped by `maxPairs` and
+ * `budgetMs`; when a step is cut short the next one resumes where it stopped,
+ * so the cost is spread across frames instead of starving the same particles.
+ */
+export class CollisionSolver {
+  private readonly hash: SpatialHash;
+  private cursor = 0;
+
+  constructor(capacity: number) {
+    this.hash = new SpatialHash(capacity);
+  }
+
+  solve(buffers: CollisionBuffers, options: CollisionOptions): CollisionStats {
+    const { count, positions, velocities, alphas, masses } = buffers;
+    const { mode, radius, maxPairs, budgetMs } = options;
+    const hash = this.hash;
+    const stats: CollisionStats = { pairsTested: 0, contacts: 0, merged: 0, truncated: false };
+    if (count === 0) return stats;
+
+    const diameter = radius * 2;
+    const diameterSq = diameter * diameter;
+    const restitution = mode === 'elastic' ? 1 : Math.max(0, Math.min(1, options.restitution));
+    hash.build(positions, alphas, count, diameter);
+
+    const startTime = budgetMs > 0 ? performance.now() : 0;
+    const start = this.cursor % count;
+
+    for (let n = 0; n < count; n++) {
+      const i = (start + n) % count;
+
+      // Check budgets every 256 particles to keep the clock reads cheap
+      if ((n & 255) === 0 && n > 0) {
+        if (stats.pairsTested >= maxPairs || (budgetMs > 0 && performance.now() - startTime > budgetMs)) {
+          stats.truncated = true;
+          this.cursor = i;
+          return stats;
+        }
+      }
+      if (alphas[i] <= 0) continue;
+
+      const ii = i * 3;
+      const cx = hash.cellCoord(positions[ii]);
+      const cy = hash.cellCoord(positions[ii + 1]);
+      const cz = hash.cellCoord(positions[ii + 2]);
+
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          for (let oz = -1; oz <= 1; oz++) {
+            // Two neighbouring cells can (rarely) share a bucket; the pair is then
+            // tested twice, which is cheaper than de-duplicating every lookup
+            const b = hash.bucket(cx + ox, cy + oy, cz + oz);
+
+            const end = hash.cellStart[b + 1];
+            for (let e = hash.cellStart[b]; e < end; e++) {
+              const j = hash.entries[e];
+              // Each unordered pair once; skip particles merged earlier this step
+              if (j <= i || alphas[j] <= 0) continue;
+              stats.pairsTested++;
+
+              const jj = j * 3;
+              const dx = positions[jj] - positions[ii];
+              const dy = positions[jj + 1] - positions[ii + 1];
+              const dz = positions[jj + 2] - positions[ii + 2];
+              const distSq = dx*dx + dy*dy + dz*dz;
+              if (distSq >= diameterSq) continue;
+
+              stats.contacts++;
+              if (mode === 'merge') {
+                this.merge(i, j, buffers);
+                stats.merged++;
+                if (alphas[i] <= 0) break; // i was absorbed into j
+              } else {
+                this.bounce(i, j, dx, dy, dz, distSq, diameter, restitution, positions, velocities, masses);
+              }
+            }
+            if (alphas[i] <= 0) break;
+          }
+          if (alphas[i] <= 0) break;
+        }
+        if (alphas[i] <= 0) break;
+      }
+    }
+
+    this.cursor = 0;
+    return stats;
+  }
+
+  // Impulse along the contact normal, then split the overlap by inverse mass
+  private bounce(
+    i: number, j: number,
+    dx: number, dy: number, dz: number, distSq: number,
+    diameter: number, restitution: number,
+    positions: Float32Array, velocities: Float32Array, masses: Float32Array
+  ) {
+    const dist = Math.sqrt(distSq) || 1e-6;
+    const nx = dx / dist;
+    const ny = dy / dist;
+    const nz = dz / dist;
+    const ii = i * 3;
+    const jj = j * 3;
+    const invMi = 1 / masses[i];
+    const invMj = 1 / masses[j];
+    const invSum = invMi + invMj;
+
+    const relVel =
+      (velocities[jj] - velocities[ii]) * nx +
+      (velocities[jj + 1] - velocities[ii + 1]) * ny +
+      (velocities[jj + 2] - velocities[ii + 2]) * nz;
+
+    // Only resolve approaching pairs
+    if (relVel < 0) {
+      const impulse = -(1 + restitution) * relVel / invSum;
+      velocities[ii] -= impulse * invMi * nx;
+      velocities[ii + 1] -= impulse * invMi * ny;
+      velocities[ii + 2] -= impulse * invMi * nz;
+      velocities[jj] += impulse * invMj * nx;
+      velocities[jj + 1] += impulse * invMj * ny;
+      velocities[jj + 2] += impulse * invMj * nz;
+    }
+
+    const overlap = diameter - dist;
+    const pushI = overlap * (invMi / invSum);
+    const pushJ = overlap * (invMj / invSum);
+    positions[ii] -= nx * pushI;
+    positions[ii + 1] -= ny * pushI;
+    positions[ii + 2] -= nz * pushI;
+    positions[jj] += nx * pushJ;
+    positions[jj + 1] += ny * pushJ;
+    positions[jj + 2] += nz * pushJ;
+  }
+
+  // The heavier particle absorbs the lighter one, conserving mass and momentum
+  private merge(i: number, j: number, buffers: CollisionBuffers) {
+    const { positions, velocities, alphas, masses } = buffers;
+    const keep = masses[i] >= masses[j] ? i : j;
+    const absorb = keep === i ? j : i;
+    const k3 = keep * 3;
+    const a3 = absorb * 3;
+    const mk = masses[keep];
+    const ma = masses[absorb];
+    const total = mk + ma;
+
+    for (let c = 0; c < 3; c++) {
+      velocities[k3 + c] = (velocities[k3 + c] * mk + velocities[a3 + c] * ma) / total;
+      positions[k3 + c] = (positions[k3 + c] * mk + positions[a3 + c] * ma) / total;
+      velocities[a3 + c] = 0;
+    }
+    masses[keep] = total;
+    masses[absorb] = 0;
+    alphas[absorb] = 0;
+  }
+}
@@ -0,0 +1,22 @@
+// Explosion timing shared by the physics (CPU + GPU) and the visual effects
+
+// Seconds from the COLLAPSE trigger until the shockwave has passed
+export const EXPLOSION_DURATION = 2;
+// Radius of the shockwave grows by this many units per second
+export const EXPLOSION_WAVE_SPEED = 25;
+// Particles within this distance of the wave front get pushed
+export const EXPLOSION_WAVE_WIDTH = 6;
+export const DEFAULT_EXPLOSION_INTENSITY = 1;
+
+// Closing speed (units/s) of the hands that gives a strength of 1
+export const EXPLOSION_REFERENCE_SPEED = 30;
+const MIN_EXPLOSION_STRENGTH = 0.5;
+const MAX_EXPLOSION_STRENGTH = 2.5;
+
+// How hard a COLLAPSE hits, from how fast the hands came together. Multiplies
+// the configured intensity. Without a measured speed (a forced gesture) it's 1.
+export const explosionStrength = (closingSpeed: number): number => {
+  if (closingSpeed <= 0) return 1;
+  const strength = closingSpeed / EXPLOSION_REFERENCE_SPEED;
+  return Math.min(MAX_EXPLOSION_STRENGTH, Math.max(MIN_EXPLOSION_STRENGTH, strength));
+};
@@ -0,0 +1,27 @@
+import { HandState } from '../types';
+
+// Fingertip force fields shared by the physics (CPU + GPU) and the ghost hands
+
+// MediaPipe indices of the thumb, index, middle, ring and pinky tips
+export const FINGERTIP_INDICES = [4, 8, 12, 16, 20];
+export const MAX_FINGERTIPS = 2 * FINGERTIP_INDICES.length;
+// Reach of one fingertip in world units; like the palm's it shrinks as the universe grows
+export const FINGERTIP_RADIUS = 2.5;
+// Open fingers part the particles they pass through; a pinching hand's
+// fingers gather them (scaled by gravity, like the palm's pull)
+const FINGERTIP_REPEL = -20;
+const FINGERTIP_ATTRACT = 12;
+
+// A fingertip in the particle group's local space; strength < 0 repels
+export interface Fingertip {
+  x: number;
+  y: number;
+  z: number;
+  strength: number;
+}
+
+// Fists grab the universe instead, so their fingers leave particles alone
+export const fingertipStrength = (hand: HandState): number => {
+  if (hand.isFist) return 0;
+  return hand.isPinched ? FINGERTIP_ATTRACT : FINGERTIP_REPEL;
+};
@@ -0,0 +1,284 @@
+import * as THREE from 'three';
+import { ParticleBuffers } from './ParticleSimulation';
+import { FrameContext } from './state';
+import { RandomFn } from './random';
+
+// Particle roles; DEAD particles sit in the free list waiting to be recycled
+const DEAD = 0;
+const SHELL = 1;
+const SPARK = 2;
+
+type BurstPattern = 'peony' | 'ring' | 'willow';
+const PATTERNS: BurstPattern[] = ['peony', 'peony', 'ring', 'willow'];
+
+// Extra hues mixed in with the configured particle color
+const PALETTE = ['#ff3355', '#ffcc33', '#33ff88', '#3399ff', '#cc66ff', '#ffffff'];
+
+// Velocities are per-tick displacements, so these are per-tick velocity change per second
+const SHELL_FALL = 0.35;
+const SPARK_FALL = 0.12;
+const WILLOW_FALL = 0.25;
+const SHELL_DRAG = 0.995;
+const SPARK_DRAG = 0.975;
+// Ground line the emitters launch from
+const LAUNCH_HEIGHT = -12;
+// Seconds between launches of one emitter (randomized +-40%)
+const LAUNCH_INTERVAL = 1.4;
+// Share of the particle buffer one burst may take
+const BURST_SHARE = 0.04;
+const MIN_BURST = 100;
+
+export interface FireworkBuffers extends ParticleBuffers {
+  bindings: Int32Array; // Planet members are left alone
+}
+
+interface Emitter {
+  x: number;
+  z: number;
+  timer: number;
+}
+
+/**
+ * Particle lifecycle for the Fireworks template. Every particle has an age and
+ * lifetime; emitters launch shells that burst into sparks, sparks fade out and
+ * die, and dead particles go back to a free list so bursts recycle them in the
+ * existing fixed-size buffers. Movement is still integrated by
+ * ParticleSimulation (using `drags` and `falls`), so gestures act on live sparks.
+ */
+export class FireworksSystem {
+  readonly ages: Float32Array;
+  readonly lifetimes: Float32Array;
+  readonly drags: Float32Array; // Per-particle velocity damping per tick
+  readonly falls: Float32Array; // Per-particle downward acceleration
+  private readonly kinds: Uint8Array;
+  private readonly baseColors: Float32Array; // Color a spark fades from
+  private readonly free: Int32Array;
+  private freeCount = 0;
+  private readonly emitters: Emitter[] = [
+    { x: -8, z: 0, timer: 0.2 },
+    { x: 0, z: -3, timer: 0.9 },
+    { x: 8, z: 0, timer: 1.6 },
+  ];
+  private readonly palette: THREE.Color[] = [];
+  private leftWasPinched = false;
+  private rightWasPinched = false;
+
+  constructor(readonly count: number) {
+    this.ages = new Float32Array(count);
+    this.lifetimes = new Float32Array(count);
+    this.drags = new Float32Array(count);
+    this.falls = new Float32Array(count);
+    this.kinds = new Uint8Array(count);
+    this.baseColors = new Float32Array(count * 3);
+    this.free = new Int32Array(count);
+  }
+
+  // Kill every particle; the sky starts empty and fills as emitters fire
+  reset(buffers: FireworkBuffers, color: string) {
+    const { count } = this;
+    this.kinds.fill(DEAD);
+    this.ages.fill(0);
+    this.lifetimes.fill(0);
+    this.freeCount = 0;
+    // Pushed in reverse so the lowest indices are handed out first
+    for (let i = count - 1; i >= 0; i--) {
+      if (buffers.bindings[i] !== 0) continue;
+      this.free[this.freeCount++] = i;
+      buffers.alphas[i] = 0;
+      buffers.velocities[i * 3] = 0;
+      buffers.velocities[i * 3 + 1] = 0;
+      buffers.velocities[i * 3 + 2] = 0;
+    }
+    this.palette.length = 0;
+    this.palette.push(new THREE.Color(color), ...PALETTE.map((hex) => new THREE.Color(hex)));
+    this.emitters.forEach((emitter, i) => { emitter.timer = 0.2 + i * 0.7; });
+  }
+
+  // A destroyed planet let go of particle i. Members bound since the reset
+  // never got a role: they die and join the free list. Sparks fly on.
+  release(i: number, alphas: Float32Array) {
+    if (this.kinds[i] === DEAD) this.kill(i, alphas);
+  }
+
+  // Launch a shell from a point (particle local space)
+  launch(buffers: FireworkBuffers, x: number, y: number, z: number, random: RandomFn) {
+    const i = this.allocate();
+    if (i < 0) return;
+    const idx = i * 3;
+    this.kinds[i] = SHELL;
+    this.ages[i] = 0;
+    this.lifetimes[i] = 1.3 + random() * 0.4; // Fuse
+    this.drags[i] = SHELL_DRAG;
+    this.falls[i] = SHELL_FALL;
+    buffers.positions[idx] = x;
+    buffers.positions[idx + 1] = y;
+    buffers.positions[idx + 2] = z;
+    buffers.velocities[idx] = (random() - 0.5) * 0.06;
+    buffers.velocities[idx + 1] = 0.4 + random() * 0.1;
+    buffers.velocities[idx + 2] = (random() - 0.5) * 0.06;
+    this.setBaseColor(i, 1, 0.8, 0.5);
+    buffers.masses[i] = 1;
+  }
+
+  /**
+   * Age everything by one tick: fire emitters, burst shells, fade and recycle
+   * sparks, and rewrite colors/alphas of live particles.
+   */
+  update(dt: number, frame: FrameContext, buffers: FireworkBuffers, random: RandomFn) {
+    const { count, kinds, ages, lifetimes, baseColors } = this;
+    const { positions, velocities, colors, alphas, masses, bindings } = buffers;
+
+    for (const emitter of this.emitters) {
+      emitter.timer -= dt;
+      if (emitter.timer <= 0) {
+        emitter.timer = LAUNCH_INTERVAL * (0.6 + random() * 0.8);
+        this.launch(buffers, emitter.x + (random() - 0.5) * 4, LAUNCH_HEIGHT, emitter.z, random);
+      }
+    }
+
+    // Releasing a pinch launches a shell from that hand
+    if (this.leftWasPinched && !frame.leftPinched && frame.lPos) {
+      this.launch(buffers, frame.lPos.x, frame.lPos.y, frame.lPos.z, random);
+    }
+    if (this.rightWasPinched && !frame.rightPinched && frame.rPos) {
+      this.launch(buffers, frame.rPos.x, frame.rPos.y, frame.rPos.z, random);
+    }
+    this.leftWasPinched = frame.leftPinched;
+    this.rightWasPinched = frame.rightPinched;
+
+    for (let i = 0; i < count; i++) {
+      const kind = kinds[i];
+      if (kind === DEAD || bindings[i] !== 0) continue;
+
+      // Merged away by collisions: recycle right away
+      if (masses[i] <= 0) {
+        this.kill(i, alphas);
+        continue;
+      }
+
+      const age = (ages[i] += dt);
+      const life = lifetimes[i];
+      const idx = i * 3;
+
+      if (kind === SHELL) {
+        // Burst at the end of the fuse or once the shell starts falling
+        if (age >= life || velocities[idx + 1] < 0) {
+          this.kill(i, alphas);
+          this.burst(buffers, positions[idx], positions[idx + 1], positions[idx + 2], random);
+          continue;
+        }
+        // Short-lived trail behind the rising shell
+        this.emitTrail(buffers, idx, random);
+        alphas[i] = 1;
+        colors[idx] = baseColors[idx];
+        colors[idx + 1] = baseColors[idx + 1];
+        colors[idx + 2] = baseColors[idx + 2];
+        continue;
+      }
+
+      if (age >= life) {
+        this.kill(i, alphas);
+        continue;
+      }
+
+      // White-hot right after the burst, then the base color dimming out
+      const t = age / life;
+      const heat = Math.max(0, 1 - t * 4);
+      const dim = 1 - 0.5 * t;
+      colors[idx] = (baseColors[idx] + (1 - baseColors[idx]) * heat) * dim;
+      colors[idx + 1] = (baseColors[idx + 1] + (1 - baseColors[idx + 1]) * heat) * dim;
+      colors[idx + 2] = (baseColors[idx + 2] + (1 - baseColors[idx + 2]) * heat) * dim;
+      // Fade out, with a crackle of flicker near the end
+      const fade = Math.pow(1 - t, 1.5);
+      alphas[i] = t > 0.7 && random() < 0.3 ? fade * 0.3 : fade;
+    }
+  }
+
+  private burst(buffers: FireworkBuffers, x: number, y: number, z: number, random: RandomFn) {
+    const pattern = PATTERNS[Math.floor(random() * PATTERNS.length)];
+    const color = this.palette[Math.floor(random() * this.palette.length)];
+    const sparks = Math.min(this.freeCount, Math.max(MIN_BURST, Math.floor(this.count * BURST_SHARE)));
+    const speed = 0.25 + random() * 0.1;
+    // Rings are tilted randomly so they don't all face the camera
+    const tilt = (random() - 0.5) * Math.PI * 0.6;
+    const { positions, velocities, masses } = buffers;
+
+    for (let n = 0; n < sparks; n++) {
+      const i = this.allocate();
+      if (i < 0) return;
+      const idx = i * 3;
+
+      let dx: number;
+      let dy: number;
+      let dz: number;
+      if (pattern === 'ring') {
+        const angle = (n / sparks) * Math.PI * 2;
+        dx = Math.cos(angle);
+        dy = Math.sin(angle) * Math.cos(tilt);
+        dz = Math.sin(angle) * Math.sin(tilt);
+      } else {
+        // Uniform direction on the unit sphere
+        dy = 1 - 2 * random();
+        const r = Math.sqrt(1 - dy * dy);
+        const phi = random() * Math.PI * 2;
+        dx = r * Math.cos(phi);
+        dz = r * Math.sin(phi);
+      }
+      // Peonies get a little depth instead of a perfect shell
+      const s = speed * (pattern === 'peony' ? 0.7 + random() * 0.3 : 1);
+
+      this.kinds[i] = SPARK;
+      this.ages[i] = 0;
+      this.lifetimes[i] = pattern === 'willow' ? 2.5 + random() : 1.4 + random() * 0.8;
+      this.drags[i] = SPARK_DRAG;
+      this.falls[i] = pattern === 'willow' ? WILLOW_FALL : SPARK_FALL;
+      positions[idx] = x;
+      positions[idx + 1] = y;
+      positions[idx + 2] = z;
+      velocities[idx] = dx * s;
+      velocities[idx + 1] = dy * s;
+      velocities[idx + 2] = dz * s;
+      this.setBaseColor(
+        i,
+        color.r + (random() - 0.5) * 0.1,
+        color.g + (random() - 0.5) * 0.1,
+        color.b + (random() - 0.5) * 0.1
+      );
+      masses[i] = 1;
+    }
+  }
+
+  private emitTrail(buffers: FireworkBuffers, shellIdx: number, random: RandomFn) {
+    const i = this.allocate();
+    if (i < 0) return;
+    const idx = i * 3;
+    const { positions, velocities, masses } = buffers;
+    this.kinds[i] = SPARK;
+    this.ages[i] = 0;
+    this.lifetimes[i] = 0.4 + random() * 0.3;
+    this.drags[i] = SPARK_DRAG;
+    this.falls[i] = SPARK_FALL;
+    for (let c = 0; c < 3; c++) {
+      positions[idx + c] = positions[shellIdx + c];
+      velocities[idx + c] = (random() - 0.5) * 0.02;
+    }
+    this.setBaseColor(i, 1, 0.6, 0.2);
+    masses[i] = 1;
+  }
+
+  private allocate(): number {
+    return this.freeCount > 0 ? this.free[--this.freeCount] : -1;
+  }
+
+  private kill(i: number, alphas: Float32Array) {
+    this.kinds[i] = DEAD;
+    alphas[i] = 0;
+    this.free[this.freeCount++] = i;
+  }
+
+  private setBaseColor(i: number, r: number, g: number, b: number) {
+    this.baseColors[i * 3] = r;
+    this.baseColors[i * 3 + 1] = g;
+    this.baseColors[i * 3 + 2] = b;
+  }
+}
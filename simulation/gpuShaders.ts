@@ -0,0 +1,284 @@
+import { HandData } from '../types';
+import {
+  FALLOFF_IDS,
+  GRAVITY_REFERENCE_DISTANCE,
+  GRAVITY_SOFTENING,
+  MAX_GRAVITY_WELLS,
+  PLANET_WELL_MASS,
+} from './gravity';
+import { EXPLOSION_WAVE_SPEED, EXPLOSION_WAVE_WIDTH } from './explosion';
+import { MAX_FINGERTIPS } from './fingertips';
+import { BURST_DISTANCE, MORPH_DRAG, MORPH_PULL, SWIRL_TURNS, TRANSITION_IDS } from './morph';
+
+// Gesture ids as seen by the compute shaders
+export const GESTURE_IDS: Record<HandData['gesture'], number> = {
+  IDLE: 0,
+  EXPAND: 1,
+  COMPRESS: 2,
+  CIRCLE: 3,
+  COLLAPSE: 4,
+  CONTROL: 5,
+};
+
+const gestureDefines = Object.entries(GESTURE_IDS)
+  .map(([gesture, id]) => `#define GESTURE_${gesture} ${id}`)
+  .join('\n');
+
+const gravityDefines = [
+  `#define MAX_GRAVITY_WELLS ${MAX_GRAVITY_WELLS}`,
+  `#define FALLOFF_INVERSE_SQUARE ${FALLOFF_IDS['inverse-square']}`,
+  `#define FALLOFF_CONSTANT ${FALLOFF_IDS.constant}`,
+  `#define GRAVITY_SOFTENING ${GRAVITY_SOFTENING.toFixed(4)}`,
+  `#define GRAVITY_REFERENCE_DISTANCE ${GRAVITY_REFERENCE_DISTANCE.toFixed(4)}`,
+  `#define PLANET_WELL_MASS ${PLANET_WELL_MASS.toFixed(4)}`,
+].join('\n');
+
+const explosionDefines = [
+  `#define EXPLOSION_WAVE_SPEED ${EXPLOSION_WAVE_SPEED.toFixed(4)}`,
+  `#define EXPLOSION_WAVE_WIDTH ${EXPLOSION_WAVE_WIDTH.toFixed(4)}`,
+].join('\n');
+
+const fingertipDefines = `#define MAX_FINGERTIPS ${MAX_FINGERTIPS}`;
+
+const morphDefines = [
+  ...Object.entries(TRANSITION_IDS).map(([style, id]) => `#define TRANSITION_${style.toUpperCase()} ${id}`),
+  `#define SWIRL_TURNS ${SWIRL_TURNS.toFixed(4)}`,
+  `#define BURST_DISTANCE ${BURST_DISTANCE.toFixed(4)}`,
+  `#define MORPH_PULL ${MORPH_PULL.toFixed(4)}`,
+  `#define MORPH_DRAG ${MORPH_DRAG.toFixed(4)}`,
+].join('\n');
+
+// GLSL port of the force terms in ParticleSimulation.integrate().
+// Texel (x, y) holds particle i = y * width + x; `texturePosition`/`textureVelocity`
+// are injected by GPUComputationRenderer as dependencies.
+export const velocityShader = /* glsl */ `
+  ${gestureDefines}
+  ${gravityDefines}
+  ${explosionDefines}
+  ${fingertipDefines}
+  ${morphDefines}
+
+  uniform float uDelta;
+  uniform float uTime;
+  uniform float uFriction;
+  uniform float uSeed;
+  uniform int uGesture;
+  uniform bool uPlanetMode;
+  uniform vec3 uPlanetCenter;
+  uniform float uPlanetRadius;
+  uniform vec3 uCenter;
+  uniform vec4 uLeft;  // xyz = local hand position, w = 1 when present
+  uniform vec4 uRight;
+  uniform bool uLeftPinched;
+  uniform bool uRightPinched;
+  uniform float uInteractionRadius;
+  uniform vec4 uFingertips[MAX_FINGERTIPS]; // xyz = local position, w = strength (< 0 repels)
+  uniform int uFingertipCount;
+  uniform float uFingertipRadius;
+  uniform float uExplosionAge;
+  uniform bool uExploding;
+  uniform vec3 uExplosionCenter;
+  uniform float uExplosionIntensity;
+  uniform sampler2D textureTarget;
+  uniform float uGravityScale;
+  uniform int uGravityFalloff;
+  uniform vec3 uGravityDirection;
+  uniform vec4 uWells[MAX_GRAVITY_WELLS]; // xyz = position, w = mass
+  uniform int uWellCount;
+  uniform bool uMorphing;
+  uniform float uMorphTime; // Elapsed share of the duration
+  uniform int uMorphStyle;
+  uniform float uMorphSpan;
+  uniform float uCount;
+  uniform sampler2D textureMorphFrom; // Positions when the morph started
+
+  float hash(vec2 p, float salt) {
+    vec3 p3 = fract(vec3(p.xyx + salt) * 0.1031);
+    p3 += dot(p3, p3.yzx + 33.33);
+    return fract((p3.x + p3.y) * p3.z);
+  }
+
+  vec3 randomVec(vec2 p, float salt) {
+    return vec3(hash(p, salt), hash(p, salt + 17.0), hash(p, salt + 31.0)) - 0.5;
+  }
+
+  // Mirrors falloffAt() in gravity.ts
+  float falloffAt(float d) {
+    if (uGravityFalloff == FALLOFF_INVERSE_SQUARE) {
+      return GRAVITY_REFERENCE_DISTANCE / (d * d + GRAVITY_SOFTENING * GRAVITY_SOFTENING);
+    }
+    if (uGravityFalloff == FALLOFF_CONSTANT) return 1.0 / GRAVITY_REFERENCE_DISTANCE;
+    return 1.0 / (d + GRAVITY_SOFTENING);
+  }
+
+  float attraction(float mass, float d) {
+    return mass * uGravityScale * falloffAt(d);
+  }
+
+  // Mirrors Morph.progress() in morph.ts; the random delays are hashed per texel instead
+  float morphProgress(float i, vec2 uv) {
+    float delay = (uMorphStyle == TRANSITION_STAGGER ? i / uCount : hash(uv, 7.0)) * uMorphSpan;
+    return clamp((uMorphTime - delay) / (1.0 - uMorphSpan), 0.0, 1.0);
+  }
+
+  // Mirrors Morph.anchor()
+  vec3 morphAnchor(vec3 from, vec3 to, float p) {
+    if (uMorphStyle == TRANSITION_SWIRL) {
+      float e = smoothstep(0.0, 1.0, p);
+      vec3 q = mix(from, to, e);
+      float angle = (1.0 - e) * SWIRL_TURNS * 6.28318530718;
+      float c = cos(angle);
+      float s = sin(angle);
+      return vec3(q.x * c - q.z * s, q.y, q.x * s + q.z * c);
+    }
+    if (uMorphStyle == TRANSITION_EXPLODE) {
+      float d = length(from);
+      vec3 burst = d > 0.001 ? from + from * (BURST_DISTANCE / d) : from + vec3(0.0, BURST_DISTANCE, 0.0);
+      return p < 0.5
+        ? mix(from, burst, smoothstep(0.0, 1.0, p * 2.0))
+        : mix(burst, to, smoothstep(0.0, 1.0, p * 2.0 - 1.0));
+    }
+    return mix(from, to, smoothstep(0.0, 1.0, p));
+  }
+
+  vec3 handForce(vec4 hand, bool pinched, vec3 pos, float dt) {
+    if (hand.w < 0.5) return vec3(0.0);
+    vec3 delta = hand.xyz - pos;
+    float d = length(delta) + 0.1;
+    if (d >= uInteractionRadius) return vec3(0.0);
+    // Pinched = attract, Open = gentle repel
+    float baseForce = pinched ? 25.0 * uGravityScale : -8.0;
+    float falloff = max(0.0, 1.0 - (d / uInteractionRadius));
+    return delta * (baseForce * falloff * dt) / (d + 0.3);
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    float i = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+    float dt = uDelta;
+
+    // 1. Base Inertia & Damping
+    vel *= uFriction;
+
+    // 2. Global gravity: uniform field + point wells
+    vel += uGravityDirection * uGravityScale * dt;
+    for (int w = 0; w < MAX_GRAVITY_WELLS; w++) {
+      if (w >= uWellCount) break;
+      vec3 delta = uWells[w].xyz - pos;
+      float d = length(delta) + 0.001;
+      vel += (delta / d) * attraction(uWells[w].w, d) * dt;
+    }
+
+    // 3. Shape Holding Force (only when IDLE, not during active gestures)
+    if (!uPlanetMode && !uExploding && uGesture == GESTURE_IDLE) {
+      vec3 target = texture2D(textureTarget, uv).xyz;
+      if (uMorphing) {
+        // Morphing: follow the anchor on its way to the new target
+        vec3 anchor = morphAnchor(texture2D(textureMorphFrom, uv).xyz, target, morphProgress(i, uv));
+        vel = (vel + (anchor - pos) * MORPH_PULL * dt) * MORPH_DRAG;
+      } else {
+        vel += (target - pos) * 0.5 * dt * 0.6;
+      }
+    }
+
+    // 4. PLANET MODE
+    if (uPlanetMode && uGesture == GESTURE_CIRCLE) {
+      vec3 planet = vec3(uPlanetCenter.xy, 0.0);
+      vec3 delta = planet - pos;
+      float d = length(delta) + 0.001;
+      vec3 dir = delta / d;
+      float targetRadius = uPlanetRadius;
+
+      vel += dir * attraction(PLANET_WELL_MASS, d) * dt;
+
+      if (d < targetRadius) {
+        vec3 spread = vec3(
+          sin(i * 1.1 + uTime * 0.5),
+          cos(i * 1.3 + uTime * 0.3),
+          sin(i * 1.7 + uTime * 0.4)
+        );
+        vel += spread * 5.0 * dt;
+        if (d < targetRadius * 0.2) {
+          vel -= dir * 30.0 * dt;
+        }
+      } else {
+        vel += dir * 100.0 * uGravityScale * dt / (d + 1.0);
+      }
+
+      // Gentle swirl
+      vel.x += -delta.y * 3.0 * dt * 0.1;
+      vel.y += delta.x * 3.0 * dt * 0.1;
+
+      // Z-axis spread
+      float zSpread = (sin(i * 0.1 + uTime) * 0.5 + 0.5) * targetRadius;
+      vel.z += (planet.z + (zSpread - targetRadius * 0.5) - pos.z) * 3.0 * dt;
+
+      vel += randomVec(uv, uSeed) * 2.0 * dt;
+    }
+    // 5. COMPRESS
+    else if (uGesture == GESTURE_COMPRESS && (uLeftPinched || uRightPinched)) {
+      vec3 delta = uCenter - pos;
+      float d = length(delta) + 0.1;
+      vel += delta * (50.0 * uGravityScale * dt / (d + 0.3));
+    }
+    // 6. EXPAND
+    else if (uGesture == GESTURE_EXPAND) {
+      vec3 delta = pos - uCenter;
+      float d = length(delta) + 0.1;
+      vel += (delta / d) * 35.0 * dt;
+      vel += randomVec(uv, uSeed) * 15.0 * dt;
+    }
+    // 7. Hand influence during IDLE
+    else if (uGesture == GESTURE_IDLE) {
+      vel += handForce(uLeft, uLeftPinched, pos, dt);
+      vel += handForce(uRight, uRightPinched, pos, dt);
+    }
+
+    // 7b. Fingertips, in every gesture
+    for (int t = 0; t < MAX_FINGERTIPS; t++) {
+      if (t >= uFingertipCount) break;
+      vec3 delta = uFingertips[t].xyz - pos;
+      float d = length(delta) + 0.05;
+      if (d < uFingertipRadius) {
+        float strength = uFingertips[t].w;
+        float baseForce = strength > 0.0 ? strength * uGravityScale : strength;
+        float falloff = 1.0 - d / uFingertipRadius;
+        vel += delta * (baseForce * falloff * dt) / (d + 0.3);
+      }
+    }
+
+    // 8. EXPLOSION shockwave
+    if (uExploding) {
+      vec3 delta = pos - uExplosionCenter;
+      float d = length(delta) + 0.001;
+      float waveRadius = uExplosionAge * EXPLOSION_WAVE_SPEED;
+      float waveWidth = EXPLOSION_WAVE_WIDTH;
+      float distToWave = abs(d - waveRadius);
+      if (distToWave < waveWidth) {
+        float waveFalloff = 1.0 - (distToWave / waveWidth);
+        vel += (delta / d) * (120.0 * uExplosionIntensity * dt * waveFalloff) / (d + 0.5);
+        vel += randomVec(uv, uSeed + 53.0) * 40.0 * uExplosionIntensity * dt * waveFalloff;
+      }
+    }
+
+    // Velocity clamping
+    float maxVel = 2.5;
+    float velMag = length(vel);
+    if (velMag > maxVel) vel *= maxVel / velMag;
+
+    gl_FragColor = vec4(vel, 1.0);
+  }
+`;
+
+// Runs in the same compute pass as the velocity shader, so it integrates the
+// previous tick's velocity (one tick behind the CPU path's semi-implicit Euler).
+export const positionShader = /* glsl */ `
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(pos + vel, 1.0);
+  }
+`;
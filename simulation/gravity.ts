@@ -0,0 +1,62 @@
+import { GravityFalloff, GravityWell, ParticleConfig } from '../types';
+
+// Slider value that reproduces the original hand-tuned forces (scale = 1)
+export const DEFAULT_GRAVITY_STRENGTH = 0.5;
+// Keeps point-mass forces finite when a particle sits on top of a well
+export const GRAVITY_SOFTENING = 0.5;
+// Distance at which all falloff curves give (roughly) the same pull, so switching
+// falloff reshapes the field around a well without changing its overall strength
+export const GRAVITY_REFERENCE_DISTANCE = 5;
+// The GPU backend passes wells as a fixed-size uniform array
+export const MAX_GRAVITY_WELLS = 8;
+
+// Mass of the well the CIRCLE gesture creates at the planet center
+export const PLANET_WELL_MASS = 200;
+
+export const FALLOFF_IDS: Record<GravityFalloff, number> = {
+  'inverse-square': 0,
+  linear: 1,
+  constant: 2,
+};
+
+// Softened falloff f(d): force magnitude = mass * scale * f(d)
+export const falloffAt = (d: number, falloff: GravityFalloff, softening = GRAVITY_SOFTENING): number => {
+  switch (falloff) {
+    case 'inverse-square':
+      return GRAVITY_REFERENCE_DISTANCE / (d * d + softening * softening);
+    case 'constant':
+      return 1 / GRAVITY_REFERENCE_DISTANCE;
+    case 'linear':
+    default:
+      return 1 / (d + softening);
+  }
+};
+
+export type GravityConfig = Pick<
+  ParticleConfig,
+  'gravityStrength' | 'gravityFalloff' | 'gravityDirection' | 'gravityWells'
+>;
+
+/**
+ * Global gravity model: a uniform directional field plus point wells, all
+ * scaled by `gravityStrength`. `scale` is also applied to the gesture-driven
+ * attractions (planet pull, compress, pinch attract) so the slider affects them.
+ */
+export class GravityField {
+  scale = 1;
+  falloff: GravityFalloff = 'linear';
+  direction = { x: 0, y: 0, z: 0 };
+  wells: GravityWell[] = [];
+
+  configure(config: GravityConfig) {
+    this.scale = config.gravityStrength / DEFAULT_GRAVITY_STRENGTH;
+    this.falloff = config.gravityFalloff;
+    this.direction = { ...config.gravityDirection };
+    this.wells = config.gravityWells.slice(0, MAX_GRAVITY_WELLS);
+  }
+
+  // Acceleration magnitude toward a point mass at distance d
+  attraction(mass: number, d: number): number {
+    return mass * this.scale * falloffAt(d, this.falloff);
+  }
+}
@@ -0,0 +1,33 @@
+import { HandData, ParticleConfig, ShapeSpec, SimulationCommand, Transition } from '../types';
+import { SimulationState } from './state';
+import { ParticleSnapshot } from './ParticleSimulation';
+import { TemplateSource } from '../utils/templateSources';
+
+// Sent once over worker.postMessage; everything after goes through `port`
+// so that config/reset/step messages keep their relative order.
+export interface SimulationInitMessage {
+  type: 'init';
+  count: number;
+  seed: number;
+  port: MessagePort;
+  // Two position frames: the worker writes one while the main thread renders the other
+  positionFrames: [SharedArrayBuffer, SharedArrayBuffer];
+  colors: SharedArrayBuffer;
+  alphas: SharedArrayBuffer;
+  // Simulated in place, for snapshots (see SharedParticleBuffers)
+  velocities: SharedArrayBuffer;
+  bindings: SharedArrayBuffer;
+}
+
+export type SimulationRequest =
+  | { type: 'config'; config: ParticleConfig }
+  | { type: 'reset'; shape: ShapeSpec; color: string }
+  | { type: 'morph'; shape: ShapeSpec; color: string; transition: Transition; from?: ParticleSnapshot }
+  // Registers a template made from user data in the worker; sent before a reset that uses it
+  | { type: 'template'; source: TemplateSource }
+  | { type: 'command'; command: SimulationCommand }
+  | { type: 'step'; dt: number; handData: HandData };
+
+export type SimulationResponse =
+  | { type: 'reset'; frame: 0 | 1 } // Also after a morph: all buffers may have changed, `frame` holds the positions
+  | { type: 'stepped'; ticks: number; frame: 0 | 1; colors: boolean; alphas: boolean; state: SimulationState };
@@ -0,0 +1,134 @@
+import { Transition, TransitionStyle } from '../types';
+import { RandomFn } from './random';
+
+// Transition styles as seen by the compute shaders
+export const TRANSITION_IDS: Record<TransitionStyle, number> = {
+  direct: 0,
+  swirl: 1,
+  explode: 2,
+  stagger: 3,
+};
+
+// Share of the duration a particle may start late: in index order when
+// staggered, a little at random otherwise so the cloud doesn't move as one block
+export const STAGGER_SPAN = 0.6;
+export const JITTER_SPAN = 0.15;
+// Turns around the y axis on the way in (swirl)
+export const SWIRL_TURNS = 1;
+// How far out particles are blown before they reform (explode)
+export const BURST_DISTANCE = 12;
+// While morphing, particles spring toward their moving anchor much harder than
+// the usual shape-holding force, heavily damped so they don't overshoot it
+export const MORPH_PULL = 6;
+export const MORPH_DRAG = 0.85;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * One transition of the particles to a new shape. Each particle gets an
+ * anchor that travels from where the particle was to its new target along the
+ * style's path; the simulation pulls the particle after it. Colors cross-fade
+ * per particle along the way.
+ */
+export class Morph {
+  private elapsed = 0;
+  readonly span: number; // See STAGGER_SPAN
+  private readonly delays: Float32Array;
+
+  constructor(
+    readonly transition: Transition,
+    // Positions at the start; only the CPU path needs them (the GPU keeps them in a texture)
+    private readonly from: Float32Array | null,
+    private readonly fromColors: Float32Array,
+    private readonly toColors: Float32Array,
+    random: RandomFn
+  ) {
+    const count = fromColors.length / 3;
+    const staggered = transition.style === 'stagger';
+    this.span = staggered ? STAGGER_SPAN : JITTER_SPAN;
+    this.delays = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      this.delays[i] = (staggered ? i / count : random()) * this.span;
+    }
+  }
+
+  // Elapsed share of the duration, 0..1
+  get time(): number {
+    return this.transition.duration > 0 ? Math.min(1, this.elapsed / this.transition.duration) : 1;
+  }
+
+  get done(): boolean {
+    return this.time >= 1;
+  }
+
+  advance(dt: number) {
+    this.elapsed += dt;
+  }
+
+  // How far particle i is along its own way, 0..1
+  progress(i: number): number {
+    return Math.min(1, Math.max(0, (this.time - this.delays[i]) / (1 - this.span)));
+  }
+
+  // Where particle i should be now, on its way to `targets`
+  anchor(i: number, targets: Float32Array, out: { x: number; y: number; z: number }) {
+    const from = this.from!;
+    const idx = i * 3;
+    const p = this.progress(i);
+    const fx = from[idx], fy = from[idx + 1], fz = from[idx + 2];
+    const tx = targets[idx], ty = targets[idx + 1], tz = targets[idx + 2];
+
+    switch (this.transition.style) {
+      case 'swirl': {
+        // Straight in, while the whole path turns around the y axis
+        const e = smoothstep(p);
+        const x = fx + (tx - fx) * e;
+        const z = fz + (tz - fz) * e;
+        const angle = (1 - e) * SWIRL_TURNS * Math.PI * 2;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        out.x = x * cos - z * sin;
+        out.y = fy + (ty - fy) * e;
+        out.z = x * sin + z * cos;
+        return;
+      }
+      case 'explode': {
+        // Out from the center for the first half, then into the new shape
+        const d = Math.sqrt(fx * fx + fy * fy + fz * fz);
+        const k = d > 0.001 ? BURST_DISTANCE / d : 0;
+        const bx = fx + fx * k;
+        const by = fy + (d > 0.001 ? fy * k : BURST_DISTANCE);
+        const bz = fz + fz * k;
+        if (p < 0.5) {
+          const e = smoothstep(p * 2);
+          out.x = fx + (bx - fx) * e;
+          out.y = fy + (by - fy) * e;
+          out.z = fz + (bz - fz) * e;
+        } else {
+          const e = smoothstep(p * 2 - 1);
+          out.x = bx + (tx - bx) * e;
+          out.y = by + (ty - by) * e;
+          out.z = bz + (tz - bz) * e;
+        }
+        return;
+      }
+      default: {
+        const e = smoothstep(p);
+        out.x = fx + (tx - fx) * e;
+        out.y = fy + (ty - fy) * e;
+        out.z = fz + (tz - fz) * e;
+      }
+    }
+  }
+
+  // Cross-fades every particle's color by its own progress
+  blendColors(colors: Float32Array) {
+    const { fromColors, toColors } = this;
+    for (let i = 0; i < this.delays.length; i++) {
+      const e = smoothstep(this.progress(i));
+      for (let c = i * 3; c < i * 3 + 3; c++) {
+        colors[c] = fromColors[c] + (toColors[c] - fromColors[c]) * e;
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Planet } from '../types';
+
+// Seconds CIRCLE must be held before the forming sphere becomes a planet
+export const PLANET_SPAWN_HOLD = 1.2;
+export const MAX_PLANETS = 6;
+// Size of the forming sphere when CIRCLE comes without a ring (forced gesture)
+export const PLANET_RADIUS = 5;
+// The ring's radius is clamped to this range
+export const MIN_PLANET_RADIUS = 2;
+export const MAX_PLANET_RADIUS = 10;
+// Well mass of a formed planet; much lighter than the CIRCLE pull so it only
+// tugs at particles passing nearby
+export const PLANET_MASS = 20;
+// Free particles within this distance (x radius) feel the planet's gravity
+export const PLANET_INFLUENCE = 3;
+// Free particles within this distance (x radius) are captured on spawn
+export const PLANET_CAPTURE = 1.6;
+// Upper bound on the share of all particles one planet may capture
+export const PLANET_PARTICLE_SHARE = 0.15;
+// COLLAPSE within this distance (x radius) of a planet destroys it
+export const PLANET_DESTROY_RANGE = 1.5;
+// Share of a ringed planet's particles that form the ring
+export const PLANET_RING_SHARE = 0.3;
+
+// Angular speed of the orbit around the scene's vertical axis (rad/s)
+const ORBIT_SPEED = 0.25;
+// Planets spawned near the center still get a visible orbit
+const MIN_ORBIT_RADIUS = 6;
+const SPIN_SPEED = 0.6;
+const RING_TILT = 0.4;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+type Vec3 = { x: number; y: number; z: number };
+
+const fract = (v: number) => v - Math.floor(v);
+
+// New planet at `center`, launched on a circular orbit around the Y axis
+export const createPlanet = (id: number, center: Vec3, radius: number, ring: boolean): Planet => {
+  const r = Math.hypot(center.x, center.z);
+  const speed = ORBIT_SPEED * Math.max(r, MIN_ORBIT_RADIUS);
+  // Tangent of the XZ circle; straight along +Z when sitting on the axis
+  const tx = r > 0.001 ? -center.z / r : 0;
+  const tz = r > 0.001 ? center.x / r : 1;
+
+  return {
+    id,
+    position: { x: center.x, y: center.y, z: center.z },
+    velocity: { x: tx * speed, y: 0, z: tz * speed },
+    radius,
+    mass: PLANET_MASS,
+    ring,
+    spin: 0,
+  };
+};
+
+// Harmonic pull toward the Y axis: every planet orbits with the same period
+export const updatePlanet = (planet: Planet, dt: number) => {
+  const { position: p, velocity: v } = planet;
+  const k = ORBIT_SPEED * ORBIT_SPEED;
+  v.x -= p.x * k * dt;
+  v.z -= p.z * k * dt;
+  p.x += v.x * dt;
+  p.y += v.y * dt;
+  p.z += v.z * dt;
+  planet.spin += SPIN_SPEED * dt;
+};
+
+/**
+ * Rest position of particle `i` inside `planet`, written to `out`. Each index
+ * maps to a fixed slot (filled ball, or ring band for ringed planets), so the
+ * shape needs no per-particle storage and rotates with the planet's spin.
+ */
+export const planetTarget = (i: number, planet: Planet, out: Vec3) => {
+  const u = fract(i * 0.6180339887);
+  const v = fract(i * 0.7548776662);
+  const w = fract(i * 0.5698402910);
+  const { radius, spin, position } = planet;
+
+  if (planet.ring && w < PLANET_RING_SHARE) {
+    const r = radius * (1.5 + 0.7 * u);
+    const angle = i * GOLDEN_ANGLE + spin * 1.5;
+    const x = Math.cos(angle) * r;
+    const y = (v - 0.5) * 0.2;
+    const z = Math.sin(angle) * r;
+    // Tilt the ring plane around X
+    out.x = position.x + x;
+    out.y = position.y + y * Math.cos(RING_TILT) - z * Math.sin(RING_TILT);
+    out.z = position.z + y * Math.sin(RING_TILT) + z * Math.cos(RING_TILT);
+    return;
+  }
+
+  const cosTheta = 1 - 2 * u;
+  const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+  const phi = i * GOLDEN_ANGLE + spin;
+  const r = radius * Math.cbrt(v);
+  out.x = position.x + r * sinTheta * Math.cos(phi);
+  out.y = position.y + r * cosTheta;
+  out.z = position.z + r * sinTheta * Math.sin(phi);
+};
@@ -0,0 +1,14 @@
+// Seeded pseudo-random number generator (mulberry32).
+// Same seed => same sequence, which is what makes simulation runs reproducible.
+export type RandomFn = () => number;
+
+export const createRandom = (seed: number): RandomFn => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
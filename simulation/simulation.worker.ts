@@ -0,0 +1,99 @@
+import { ParticleSimulation } from './ParticleSimulation';
+import { SimulationInitMessage, SimulationRequest, SimulationResponse } from './messages';
+import { registerTemplateSource } from '../utils/templateSources';
+
+// Dedicated worker running the particle integration loop off the main thread.
+// Results are published into SharedArrayBuffers owned by the main thread.
+
+let simulation: ParticleSimulation | null = null;
+let port: MessagePort | null = null;
+let positionFrames: [Float32Array, Float32Array] | null = null;
+let sharedColors: Float32Array | null = null;
+let sharedAlphas: Float32Array | null = null;
+let colorsVersion = -1;
+let alphasVersion = -1;
+// The main thread shows frame 0 until told otherwise, so writing starts on 1
+let writeFrame: 0 | 1 = 1;
+
+const post = (message: SimulationResponse) => port?.postMessage(message);
+
+// After a reset or morph: every buffer may have changed. Like a step, the
+// positions only go into the back frame, which the main thread then shows.
+const publishAll = (simulation: ParticleSimulation, frames: [Float32Array, Float32Array]) => {
+  sharedColors?.set(simulation.colors);
+  sharedAlphas?.set(simulation.alphas);
+  colorsVersion = simulation.colorsVersion;
+  alphasVersion = simulation.alphasVersion;
+  const frame = writeFrame;
+  frames[frame].set(simulation.positions);
+  writeFrame = frame === 0 ? 1 : 0;
+  post({ type: 'reset', frame });
+};
+
+const handleRequest = (message: SimulationRequest) => {
+  if (!simulation || !positionFrames || !sharedColors || !sharedAlphas) return;
+
+  switch (message.type) {
+    case 'config':
+      simulation.setConfig(message.config);
+      break;
+
+    case 'reset':
+      simulation.reset(message.shape, message.color);
+      publishAll(simulation, positionFrames);
+      break;
+
+    case 'morph':
+      simulation.morph(message.shape, message.color, message.transition, message.from);
+      publishAll(simulation, positionFrames);
+      break;
+
+    case 'template':
+      registerTemplateSource(message.source);
+      break;
+
+    case 'command':
+      simulation.command(message.command);
+      break;
+
+    case 'step': {
+      const ticks = simulation.step(message.dt, message.handData);
+      const frame = writeFrame;
+      if (ticks > 0) {
+        positionFrames[frame].set(simulation.positions);
+        writeFrame = frame === 0 ? 1 : 0;
+      }
+      // Colors and alphas only change on merges and fireworks; publish them when they do
+      const colors = simulation.colorsVersion !== colorsVersion;
+      if (colors) {
+        sharedColors.set(simulation.colors);
+        colorsVersion = simulation.colorsVersion;
+      }
+      const alphas = simulation.alphasVersion !== alphasVersion;
+      if (alphas) {
+        sharedAlphas.set(simulation.alphas);
+        alphasVersion = simulation.alphasVersion;
+      }
+      post({ type: 'stepped', ticks, frame, colors, alphas, state: simulation.state });
+      break;
+    }
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<SimulationInitMessage>) => {
+  const init = event.data;
+  if (init.type !== 'init') return;
+
+  simulation = new ParticleSimulation(init.count, init.seed, {
+    velocities: new Float32Array(init.velocities),
+    bindings: new Int32Array(init.bindings),
+  });
+  positionFrames = [
+    new Float32Array(init.positionFrames[0]),
+    new Float32Array(init.positionFrames[1]),
+  ];
+  sharedColors = new Float32Array(init.colors);
+  sharedAlphas = new Float32Array(init.alphas);
+  port = init.port;
+  port.onmessage = (e: MessageEvent<SimulationRequest>) => handleRequest(e.data);
+});
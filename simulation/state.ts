@@ -0,0 +1,355 @@
+import * as THREE from 'three';
+import { HandData, HandState, Planet, SimulationCommand } from '../types';
+import { EXPLOSION_DURATION, explosionStrength } from './explosion';
+import { Fingertip, FINGERTIP_INDICES, FINGERTIP_RADIUS, fingertipStrength, MAX_FINGERTIPS } from './fingertips';
+import {
+  createPlanet,
+  MAX_PLANET_RADIUS,
+  MAX_PLANETS,
+  MIN_PLANET_RADIUS,
+  PLANET_DESTROY_RANGE,
+  PLANET_RADIUS,
+  PLANET_SPAWN_HOLD,
+  updatePlanet,
+} from './planets';
+
+// Fixed simulation tick shared by every backend
+export const FIXED_DT = 1 / 60;
+// Upper bound on catch-up ticks per step() so a long frame can't stall the loop
+export const MAX_SUBSTEPS = 4;
+
+type Vec3 = { x: number; y: number; z: number };
+
+// Plain data only, so the state can be copied/serialized as a snapshot
+export interface SimulationState {
+  time: number;
+  lastGesture: HandData['gesture']; // Gesture of the previous tick, for edge triggers
+  explosionTime: number; // Time when explosion triggered
+  explosionCenter: Vec3; // Where it triggered, fixed for the whole shockwave
+  explosionStrength: number; // From the closing speed of the hands, multiplies the intensity
+  planetMode: boolean; // A planet is forming under the CIRCLE gesture
+  planetCenter: Vec3;
+  planetRadius: number; // Of the forming sphere, from the ring's size
+  circleHoldTime: number; // How long the current CIRCLE has been held
+  circleConsumed: boolean; // This CIRCLE already spawned a planet
+  planets: Planet[];
+  nextPlanetId: number;
+  targetScale: number;
+  currentScale: number;
+  targetRotationY: number;
+  currentRotationY: number;
+  targetRotationZ: number;
+  currentRotationZ: number;
+  grab: ControlGrab | null; // Set while CONTROL holds the universe
+}
+
+// Hands and transform when CONTROL started; the transform follows relative to these
+export interface ControlGrab {
+  distance: number;
+  centerX: number;
+  rotation: number;
+  scale: number;
+  rotationY: number;
+  rotationZ: number;
+}
+
+export const createSimulationState = (): SimulationState => ({
+  time: 0,
+  lastGesture: 'IDLE',
+  explosionTime: -100,
+  explosionCenter: { x: 0, y: 0, z: 0 },
+  explosionStrength: 1,
+  planetMode: false,
+  planetCenter: { x: 0, y: 0, z: 0 },
+  planetRadius: PLANET_RADIUS,
+  circleHoldTime: 0,
+  circleConsumed: false,
+  planets: [],
+  nextPlanetId: 1,
+  targetScale: 1,
+  currentScale: 1,
+  targetRotationY: 0,
+  currentRotationY: 0,
+  targetRotationZ: 0,
+  currentRotationZ: 0,
+  grab: null,
+});
+
+// Everything the particle loop needs for one tick, derived from hand data + state
+export interface FrameContext {
+  gesture: HandData['gesture'];
+  lPos: THREE.Vector3 | null;
+  rPos: THREE.Vector3 | null;
+  centerPos: THREE.Vector3;
+  leftPinched: boolean;
+  rightPinched: boolean;
+  interactionRadius: number;
+  fingertips: Fingertip[]; // Only the first fingertipCount are in use
+  fingertipCount: number;
+  fingertipRadius: number;
+  explosionAge: number;
+  isExploding: boolean;
+  spawnedPlanets: Planet[]; // Created this tick (by CIRCLE or command)
+  destroyedPlanets: Planet[]; // Removed this tick (by COLLAPSE or command)
+}
+
+/**
+ * Per-tick game logic shared by the CPU and GPU backends: gesture-driven state
+ * transitions (planet formation and orbits, explosions, CONTROL transforms) and the mapping of
+ * hand positions into the particle group's local space.
+ */
+export class SimulationStateController {
+  readonly state: SimulationState = createSimulationState();
+  ringedPlanets = false; // Whether newly spawned planets get a ring
+
+  private commands: SimulationCommand[] = [];
+
+  // Scratch objects reused every tick
+  private readonly transform = new THREE.Matrix4();
+  private readonly worldToLocal = new THREE.Matrix4();
+  private readonly quaternion = new THREE.Quaternion();
+  private readonly euler = new THREE.Euler();
+  private readonly scaleVec = new THREE.Vector3();
+  private readonly origin = new THREE.Vector3();
+  private readonly lPos = new THREE.Vector3();
+  private readonly rPos = new THREE.Vector3();
+  private readonly centerPos = new THREE.Vector3();
+  private readonly ringPos = new THREE.Vector3();
+  private readonly tipPos = new THREE.Vector3();
+  private readonly commandPos = new THREE.Vector3();
+  private readonly fingertips: Fingertip[] = Array.from({ length: MAX_FINGERTIPS }, () => ({
+    x: 0,
+    y: 0,
+    z: 0,
+    strength: 0,
+  }));
+
+  private readonly spawnedPlanets: Planet[] = [];
+  private readonly destroyedPlanets: Planet[] = [];
+
+  // Continue from the state of a replaced simulation
+  adopt(state: SimulationState) {
+    Object.assign(this.state, structuredClone(state));
+  }
+
+  // Applied at the start of the next tick, in order
+  queueCommand(command: SimulationCommand) {
+    this.commands.push(command);
+  }
+
+  private removePlanet(id: number) {
+    const planets = this.state.planets;
+    const index = planets.findIndex((planet) => planet.id === id);
+    if (index >= 0) {
+      this.destroyedPlanets.push(planets[index]);
+      planets.splice(index, 1);
+    }
+  }
+
+  // A planet of the given size at `center` (local space, the sphere's z is
+  // dropped like the forming sphere's), unless there are too many already
+  private spawnPlanet(center: Vec3, radius: number) {
+    const s = this.state;
+    if (s.planets.length >= MAX_PLANETS) return;
+    const planet = createPlanet(s.nextPlanetId++, { x: center.x, y: center.y, z: 0 }, radius, this.ringedPlanets);
+    s.planets.push(planet);
+    this.spawnedPlanets.push(planet);
+  }
+
+  // Starts a shockwave at `center` (local space); one over a planet blows it apart
+  private explode(center: Vec3, strength: number) {
+    const s = this.state;
+    s.explosionTime = s.time;
+    s.explosionCenter.x = center.x;
+    s.explosionCenter.y = center.y;
+    s.explosionCenter.z = center.z;
+    s.explosionStrength = strength;
+    s.planetMode = false;
+
+    const target = s.planets.find((planet) => {
+      const dx = planet.position.x - center.x;
+      const dy = planet.position.y - center.y;
+      const dz = planet.position.z - center.z;
+      return Math.sqrt(dx*dx + dy*dy + dz*dz) < planet.radius * PLANET_DESTROY_RANGE;
+    });
+    if (target) this.removePlanet(target.id);
+  }
+
+  // Fingertips of the hands that carry landmarks (and exert a force), in local space
+  private placeFingertips(hands: (HandState | null)[]): number {
+    let count = 0;
+    for (const hand of hands) {
+      const strength = hand ? fingertipStrength(hand) : 0;
+      if (!hand?.landmarks || strength === 0) continue;
+      for (const index of FINGERTIP_INDICES) {
+        const joint = hand.landmarks[index];
+        const local = this.tipPos.set(joint.x, joint.y, joint.z).applyMatrix4(this.worldToLocal);
+        const tip = this.fingertips[count++];
+        tip.x = local.x;
+        tip.y = local.y;
+        tip.z = local.z;
+        tip.strength = strength;
+      }
+    }
+    return count;
+  }
+
+  advance(dt: number, handData: HandData): FrameContext {
+    const { left, right, gesture, centerX, centerY, centerZ, distance, rotation, ring } = handData;
+    const s = this.state;
+    s.time += dt;
+
+    this.spawnedPlanets.length = 0;
+    this.destroyedPlanets.length = 0;
+
+    // --- SYSTEM TRANSFORMS (CONTROL MODE) ---
+    // Two fists grab the universe: scale follows the change in hand distance, Y rotation
+    // the sideways movement and Z rotation the tilt between the hands, all relative to
+    // the grab start. Opening the hands releases it and the transform stays put.
+    if (gesture === 'CONTROL' && distance > 0) {
+        if (!s.grab) {
+            s.grab = {
+                distance,
+                centerX,
+                rotation,
+                scale: s.currentScale,
+                rotationY: s.currentRotationY,
+                rotationZ: s.currentRotationZ,
+            };
+        }
+        const grab = s.grab;
+        s.targetScale = Math.max(0.3, Math.min(3.0, grab.scale * (distance / grab.distance)));
+        s.targetRotationY = grab.rotationY + ((centerX - grab.centerX) / 12) * Math.PI;
+        // Wrapped, so crossing ±180° between the hands doesn't flip the universe
+        const tilt = Math.atan2(Math.sin(rotation - grab.rotation), Math.cos(rotation - grab.rotation));
+        s.targetRotationZ = grab.rotationZ + tilt * 0.8; // Slightly dampen for stability
+    } else if (gesture !== 'CONTROL') {
+        s.grab = null;
+    }
+
+    // Smooth Interpolation for Transforms with adaptive speed
+    const baseLerp = dt * 4;
+    const controlLerp = gesture === 'CONTROL' ? baseLerp * 1.5 : baseLerp * 0.5;
+
+    s.currentScale += (s.targetScale - s.currentScale) * controlLerp;
+    s.currentRotationY += (s.targetRotationY - s.currentRotationY) * controlLerp;
+    s.currentRotationZ += (s.targetRotationZ - s.currentRotationZ) * controlLerp;
+
+    // --- PHYSICS PREP ---
+    // Hands live in world space; particles live in the (scaled/rotated) group's local space
+    this.euler.set(0, s.currentRotationY, s.currentRotationZ);
+    this.quaternion.setFromEuler(this.euler);
+    this.scaleVec.setScalar(s.currentScale);
+    this.transform.compose(this.origin, this.quaternion, this.scaleVec);
+    this.worldToLocal.copy(this.transform).invert();
+
+    const lPos = left ? this.lPos.set(left.x, left.y, left.z).applyMatrix4(this.worldToLocal) : null;
+    const rPos = right ? this.rPos.set(right.x, right.y, right.z).applyMatrix4(this.worldToLocal) : null;
+    const centerPos = this.centerPos.set(centerX, centerY, centerZ || 0).applyMatrix4(this.worldToLocal);
+
+    // A planet forms inside the ring, sized like it; without one, between the hands
+    const planetPos = ring ? this.ringPos.set(ring.x, ring.y, ring.z).applyMatrix4(this.worldToLocal) : centerPos;
+    const planetRadius = ring
+      ? Math.max(MIN_PLANET_RADIUS, Math.min(MAX_PLANET_RADIUS, ring.radius / s.currentScale))
+      : PLANET_RADIUS;
+
+    // Dynamic interaction radius based on current scale
+    const baseInteractionRadius = 12;
+    const interactionRadius = baseInteractionRadius / s.currentScale;
+    const fingertipCount = this.placeFingertips([left, right]);
+
+    // --- COMMANDS ---
+    // Applied once the transform is known, so positions can be mapped like the hands
+    for (const command of this.commands) {
+      switch (command.type) {
+        case 'destroyPlanet':
+          this.removePlanet(command.id);
+          break;
+        case 'spawnPlanet': {
+          const { x, y, z } = command.position;
+          const center = this.commandPos.set(x, y, z).applyMatrix4(this.worldToLocal);
+          this.spawnPlanet(center, PLANET_RADIUS);
+          break;
+        }
+        case 'explode': {
+          const { x, y, z } = command.position;
+          this.explode(this.commandPos.set(x, y, z).applyMatrix4(this.worldToLocal), 1);
+          break;
+        }
+      }
+    }
+    this.commands.length = 0;
+
+    // --- GAME LOGIC ---
+
+    // CIRCLE/Planet mode activation
+    if (gesture === 'CIRCLE' && !s.planetMode && !s.circleConsumed) {
+        s.planetMode = true;
+        s.circleHoldTime = 0;
+        s.planetCenter.x = planetPos.x;
+        s.planetCenter.y = planetPos.y;
+        s.planetCenter.z = planetPos.z;
+        s.planetRadius = planetRadius;
+    }
+
+    // Update planet center and size smoothly while in CIRCLE mode
+    if (gesture === 'CIRCLE' && s.planetMode) {
+        const t = dt * 4;
+        s.planetCenter.x += (planetPos.x - s.planetCenter.x) * t;
+        s.planetCenter.y += (planetPos.y - s.planetCenter.y) * t;
+        s.planetCenter.z += (planetPos.z - s.planetCenter.z) * t;
+        s.planetRadius += (planetRadius - s.planetRadius) * t;
+        s.circleHoldTime += dt;
+    }
+
+    // Holding CIRCLE long enough turns the forming sphere into a persistent planet
+    if (s.planetMode && s.circleHoldTime >= PLANET_SPAWN_HOLD && s.planets.length < MAX_PLANETS) {
+        // The forming sphere sits at z = 0, see the planet mode force
+        this.spawnPlanet(s.planetCenter, s.planetRadius);
+        s.planetMode = false;
+        s.circleConsumed = true;
+    }
+    if (gesture !== 'CIRCLE') {
+        s.circleConsumed = false;
+    }
+
+    // Exit planet mode when not in CIRCLE gesture
+    if (gesture !== 'CIRCLE' && s.planetMode) {
+        // Give a short grace period before exiting
+        if (gesture === 'EXPAND' || gesture === 'COMPRESS') {
+            s.planetMode = false;
+        }
+    }
+
+    // Explosion trigger, once per COLLAPSE (its cooldown lives in the gesture profile)
+    if (gesture === 'COLLAPSE' && s.lastGesture !== 'COLLAPSE') {
+      this.explode(centerPos, explosionStrength(handData.closingSpeed));
+    }
+
+    s.lastGesture = gesture;
+
+    for (const planet of s.planets) {
+      updatePlanet(planet, dt);
+    }
+
+    const explosionAge = s.time - s.explosionTime;
+    const isExploding = explosionAge < EXPLOSION_DURATION && explosionAge > 0;
+
+    return {
+      gesture,
+      lPos,
+      rPos,
+      centerPos,
+      leftPinched: left?.isPinched ?? false,
+      rightPinched: right?.isPinched ?? false,
+      interactionRadius,
+      fingertips: this.fingertips,
+      fingertipCount,
+      fingertipRadius: FINGERTIP_RADIUS / s.currentScale,
+      explosionAge,
+      isExploding,
+      spawnedPlanets: this.spawnedPlanets,
+      destroyedPlanets: this.destroyedPlanets,
+    };
+  }
+}
@@ -1,14 +1,43 @@
 import { create } from 'zustand';
-import { ShapeType, ParticleConfig, HandData } from './types';
+import { ParticleConfig, HandData, Planet, SimulationCommand } from './types';
+import { SimulationState } from './simulation/state';
+import { createEmptyHandData } from './input/handData';
+import { DEFAULT_GESTURE_PROFILE, GestureProfile } from './input/gestureProfile';
+import { DEFAULT_HAND_FILTER, HandFilterSettings, HandFilterStats } from './input/HandFilter';
+import { CalibrationProfile, loadActiveCalibration, saveActiveCalibration } from './input/calibration';
+import { CustomGesture, GestureAction, loadCustomGestures, saveCustomGestures } from './input/customGestures';
 import * as THREE from 'three';
 
 interface AppState {
   config: ParticleConfig;
   setConfig: (partial: Partial<ParticleConfig>) => void;
+  // Shows a template, regenerating it even if it is already shown (it may have been re-imported)
+  selectTemplate: (id: string) => void;
   handDataRef: { current: HandData }; // Mutable ref for high-frequency updates
   setHandData: (data: HandData) => void;
   isHandTrackingReady: boolean;
   setHandTrackingReady: (ready: boolean) => void;
+  inputSource: string; // Id of the registered InputSource feeding handDataRef
+  setInputSource: (id: string) => void;
+  gestureProfile: GestureProfile; // Gesture definitions the input pipeline runs
+  setGestureProfile: (profile: GestureProfile) => void;
+  calibration: CalibrationProfile; // Camera mapping and pose thresholds for landmark sources
+  setCalibration: (profile: CalibrationProfile) => void;
+  customGestures: CustomGesture[]; // User-trained gestures the input pipeline recognizes
+  setCustomGestures: (gestures: CustomGesture[]) => void;
+  runGestureAction: (action: GestureAction, hands: HandData) => void; // When a custom gesture starts
+  handFilter: HandFilterSettings; // Palm filtering and prediction the input pipeline applies
+  setHandFilter: (settings: HandFilterSettings) => void;
+  handFilterStatsRef: { current: { left: HandFilterStats; right: HandFilterStats } | null }; // Live, from the running pipeline
+  cameraError: string | null; // Why the camera could not be used, if it failed
+  setCameraError: (error: string | null) => void;
+  activeBackend: string; // What is actually running, after any fallback
+  setActiveBackend: (backend: string) => void;
+  planets: Planet[]; // Snapshot for the UI; updated when planets appear or disappear
+  syncPlanets: (planets: Planet[]) => void;
+  simulationStateRef: { current: SimulationState | null }; // Latest state of the running simulation, for effects
+  simulationCommandsRef: { current: SimulationCommand[] }; // Drained by the particle system each frame
+  sendSimulationCommand: (command: SimulationCommand) => void;
 }
 
 const DEFAULT_CONFIG: ParticleConfig = {
@@ -16,28 +45,32 @@ const DEFAULT_CONFIG: ParticleConfig = {
   color: '#00ffff',
   size: 0.05,
   gravityStrength: 0.5,
+  gravityFalloff: 'linear',
+  gravityDirection: { x: 0, y: 0, z: 0 },
+  gravityWells: [],
   friction: 0.96,
-  shape: ShapeType.SPHERE,
+  shape: 'sphere',
+  shapeParams: {},
   collisionEnabled: false,
+  collisionMode: 'inelastic',
+  restitution: 0.5,
+  backend: 'cpu',
+  explosionIntensity: 1,
+  planetRings: false,
+  transition: { style: 'direct', duration: 1.5 },
 };
 
-// Initial neutral hand data
-const initialHandData: HandData = {
-  left: null,
-  right: null,
-  distance: 0,
-  centerX: 0,
-  centerY: 0,
-  centerZ: 0,
-  rotation: 0,
-  gesture: 'IDLE',
-};
 
-export const useStore = create<AppState>((set) => ({
+export const useStore = create<AppState>((set, get) => ({
   config: DEFAULT_CONFIG,
   setConfig: (partial) =>
     set((state) => ({ config: { ...state.config, ...partial } })),
-  handDataRef: { current: initialHandData },
+  selectTemplate: (id) => {
+    // A fresh params object re-runs the reset
+    const { shapeParams } = get().config;
+    get().setConfig({ shape: id, shapeParams: { ...shapeParams, [id]: { ...shapeParams[id] } } });
+  },
+  handDataRef: { current: createEmptyHandData() },
   setHandData: (data) => {
     // We update the ref directly for the loop, but usually we don't trigger state updates 
     // for hand positions to avoid React re-renders. 
@@ -45,4 +78,56 @@ export const useStore = create<AppState>((set) => ({
   },
   isHandTrackingReady: false,
   setHandTrackingReady: (ready) => set({ isHandTrackingReady: ready }),
+  inputSource: 'webcam',
+  setInputSource: (id) =>
+    set((state) => (state.inputSource === id ? {} : { inputSource: id, isHandTrackingReady: false })),
+  gestureProfile: DEFAULT_GESTURE_PROFILE,
+  setGestureProfile: (profile) => set({ gestureProfile: profile }),
+  calibration: loadActiveCalibration(),
+  setCalibration: (profile) => {
+    saveActiveCalibration(profile);
+    set({ calibration: profile });
+  },
+  customGestures: loadCustomGestures(),
+  setCustomGestures: (gestures) => {
+    saveCustomGestures(gestures);
+    set({ customGestures: gestures });
+  },
+  runGestureAction: (action, hands) => {
+    // Planets and explosions happen where the hands are
+    const position = { x: hands.centerX, y: hands.centerY, z: hands.centerZ };
+    switch (action.type) {
+      case 'shape':
+        get().setConfig({ shape: action.shape });
+        break;
+      case 'color':
+        get().setConfig({ color: action.color });
+        break;
+      case 'planet':
+        get().sendSimulationCommand({ type: 'spawnPlanet', position });
+        break;
+      case 'explode':
+        get().sendSimulationCommand({ type: 'explode', position });
+        break;
+    }
+  },
+  handFilter: DEFAULT_HAND_FILTER,
+  setHandFilter: (settings) => set({ handFilter: settings }),
+  handFilterStatsRef: { current: null },
+  cameraError: null,
+  setCameraError: (error) => set({ cameraError: error }),
+  activeBackend: '',
+  setActiveBackend: (backend) => set({ activeBackend: backend }),
+  planets: [],
+  syncPlanets: (planets) => {
+    // Positions change every tick; only re-render when the set of planets does
+    const current = get().planets;
+    const same = current.length === planets.length && current.every((p, i) => p.id === planets[i].id);
+    if (!same) set({ planets: planets.map((planet) => ({ ...planet })) });
+  },
+  simulationStateRef: { current: null },
+  simulationCommandsRef: { current: [] },
+  sendSimulationCommand: (command) => {
+    get().simulationCommandsRef.current.push(command);
+  },
 }));
\ No newline at end of file
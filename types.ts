@@ -1,13 +1,38 @@
 import * as THREE from 'three';
 
-export enum ShapeType {
-  SPHERE = 'Sphere',
-  CUBE = 'Cube',
-  HEART = 'Heart',
-  FLOWER = 'Flower',
-  SATURN = 'Saturn',
-  BUDDHA = 'Buddha', // Simplified Meditating Figure
-  GALAXY = 'Galaxy',
+// Values of a template's parameters by key; see utils/templates.ts
+export type TemplateParams = Record<string, number>;
+
+// Which template the particles form, and how
+export interface ShapeSpec {
+  template: string; // Registered template id
+  params: TemplateParams; // Missing ones take the template's defaults
+}
+
+// Where particle physics is integrated: CPU (worker or main thread) or GPGPU float textures
+export type SimulationBackendType = 'cpu' | 'gpu';
+
+// How point gravity decays with distance (always softened near the center)
+export type GravityFalloff = 'inverse-square' | 'linear' | 'constant';
+
+// Point mass attracting particles, in particle (scene) space
+export interface GravityWell {
+  x: number;
+  y: number;
+  z: number;
+  mass: number;
+}
+
+// Particle-particle collision response
+export type CollisionMode = 'elastic' | 'inelastic' | 'merge';
+
+// How particles travel to a new shape: straight there, spiraling in, blown
+// apart first, or one after another by index
+export type TransitionStyle = 'direct' | 'swirl' | 'explode' | 'stagger';
+
+export interface Transition {
+  style: TransitionStyle;
+  duration: number; // Seconds
 }
 
 export interface ParticleConfig {
@@ -15,18 +40,73 @@ export interface ParticleConfig {
   color: string;
   size: number;
   gravityStrength: number;
+  gravityFalloff: GravityFalloff;
+  gravityDirection: { x: number; y: number; z: number }; // Uniform field, e.g. y < 0 pulls down
+  gravityWells: GravityWell[];
   friction: number;
-  shape: ShapeType;
+  shape: string; // Template id
+  shapeParams: Record<string, TemplateParams>; // Per template id, so switching back keeps the tweaks
   collisionEnabled: boolean;
+  collisionMode: CollisionMode;
+  restitution: number; // 0..1, used by 'inelastic'
+  backend: SimulationBackendType;
+  explosionIntensity: number; // Scales the COLLAPSE blast and its visual effects (1 = default)
+  planetRings: boolean; // Give new planets a ring (always on with the Saturn template)
+  transition: Transition; // How shape, color and count changes morph
+}
+
+// Persistent body formed by holding CIRCLE, in particle (local) space.
+// Velocity is in units per second; `spin` rotates the particles bound to it.
+export interface Planet {
+  id: number;
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+  radius: number;
+  mass: number;
+  ring: boolean;
+  spin: number;
+}
+
+// One-off requests from the UI into the running simulation
+export type SimulationCommand =
+  | { type: 'destroyPlanet'; id: number }
+  | { type: 'spawnPlanet'; position: { x: number; y: number; z: number } } // World space, like the hands
+  | { type: 'explode'; position: { x: number; y: number; z: number } };
+
+export interface HandState {
+  x: number;
+  y: number;
+  z: number;
+  isOpen: boolean;
+  isPinched: boolean;
+  isFist: boolean;
+  trackId: number; // Stays with the physical hand across frames; 0 for sources without tracking
+  confidence: number; // 0..1, how sure the tracker is this is the hand on this side
+  landmarks: { x: number; y: number; z: number }[] | null; // The 21 MediaPipe joints in world space, null for sources without them
+  velocity: { x: number; y: number; z: number }; // Units per second
+  acceleration: { x: number; y: number; z: number }; // Units per second²
+}
+
+// A loop made with thumbs and index fingers (both hands) or an OK sign (one hand)
+export interface HandRing {
+  kind: 'hands' | 'ok';
+  confidence: number; // 0..1
+  x: number; // Center of the loop
+  y: number;
+  z: number;
+  radius: number; // Radius of the circle with the loop's area
 }
 
 export interface HandData {
-  left: { x: number; y: number; z: number; isOpen: boolean; isPinched: boolean } | null;
-  right: { x: number; y: number; z: number; isOpen: boolean; isPinched: boolean } | null;
+  left: HandState | null;
+  right: HandState | null;
   distance: number; // Distance between hands
+  closingSpeed: number; // Recent peak speed (units/s) at which the hands approached each other
   centerX: number;
   centerY: number;
   centerZ: number;
   rotation: number; // Angle between hands in radians
+  ring: HandRing | null; // Best ring-shaped pose in view, if any
   gesture: 'IDLE' | 'EXPAND' | 'COMPRESS' | 'CIRCLE' | 'COLLAPSE' | 'CONTROL';
+  customGesture: string | null; // Name of the user-trained gesture being made, recognized alongside `gesture`
 }
\ No newline at end of file
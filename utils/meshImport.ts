@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { MeshData, MeshTexture } from './meshTemplates';
+import { registerTemplateSource } from './templateSources';
+
+export const MESH_EXTENSIONS = ['.obj', '.ply', '.glb', '.gltf'];
+
+// Textures are read back at most this big; particles don't need more detail
+const MAX_TEXTURE_SIZE = 512;
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+export const isMeshFile = (file: File) => MESH_EXTENSIONS.includes(extensionOf(file.name));
+
+const loadObject = async (file: File): Promise<THREE.Object3D> => {
+  switch (extensionOf(file.name)) {
+    case '.obj':
+      return new OBJLoader().parse(await file.text());
+    case '.ply':
+      return new THREE.Mesh(new PLYLoader().parse(await file.arrayBuffer()));
+    case '.glb':
+    case '.gltf':
+      // External buffers and images can't be resolved from a single dropped file
+      return (await new GLTFLoader().parseAsync(await file.arrayBuffer(), '')).scene;
+    default:
+      throw new Error(`${file.name}: not a mesh file (${MESH_EXTENSIONS.join(', ')}).`);
+  }
+};
+
+// The texture's pixels in linear rgb, scaled down to MAX_TEXTURE_SIZE
+const readTexture = (texture: THREE.Texture): MeshTexture | null => {
+  const image = texture.image as CanvasImageSource & { width: number; height: number };
+  if (!image?.width || !image?.height) return null;
+  const scale = Math.min(1, MAX_TEXTURE_SIZE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(image, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const data = new Float32Array(width * height * 3);
+  // Untagged images are assumed to be sRGB like nearly every color texture
+  const colorSpace = texture.colorSpace === THREE.LinearSRGBColorSpace ? THREE.LinearSRGBColorSpace : THREE.SRGBColorSpace;
+  const color = new THREE.Color();
+  for (let i = 0; i < width * height; i++) {
+    color.setRGB(pixels[i * 4] / 255, pixels[i * 4 + 1] / 255, pixels[i * 4 + 2] / 255, colorSpace);
+    data[i * 3] = color.r;
+    data[i * 3 + 1] = color.g;
+    data[i * 3 + 2] = color.b;
+  }
+  return { width, height, data, flipY: texture.flipY };
+};
+
+// Material of the triangle starting at vertex `start`
+const materialAt = (mesh: THREE.Mesh, geometry: THREE.BufferGeometry, start: number): THREE.Material | undefined => {
+  if (!Array.isArray(mesh.material)) return mesh.material;
+  const group = geometry.groups.find((g) => start >= g.start && start < g.start + g.count);
+  return group?.materialIndex !== undefined ? mesh.material[group.materialIndex] : mesh.material[0];
+};
+
+/**
+ * Flattens every mesh in a file into one triangle soup in world space, with
+ * the corner colors (vertex colors times the material color) and textures.
+ * Colors are only kept if the file has any: vertex colors, a texture or a
+ * material that isn't white.
+ */
+export const loadMeshFile = async (file: File): Promise<MeshData> => {
+  const root = await loadObject(file);
+  root.updateMatrixWorld(true);
+
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const uvs: number[] = [];
+  const triangleTextures: number[] = [];
+  const textures: MeshTexture[] = [];
+  const textureIndices = new Map<THREE.Texture, number>();
+  let colored = false;
+  let textured = false;
+
+  const textureIndex = (texture: THREE.Texture | null | undefined): number => {
+    if (!texture) return -1;
+    if (!textureIndices.has(texture)) {
+      const read = readTexture(texture);
+      textureIndices.set(texture, read ? textures.push(read) - 1 : -1);
+    }
+    return textureIndices.get(texture)!;
+  };
+
+  root.traverse((object) => {
+    const mesh = object as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+    geometry.applyMatrix4(mesh.matrixWorld);
+    const position = geometry.getAttribute('position');
+    const color = geometry.getAttribute('color');
+    const uv = geometry.getAttribute('uv');
+    if (!position) return;
+    colored ||= !!color;
+
+    const materialColor = new THREE.Color();
+    for (let start = 0; start + 2 < position.count; start += 3) {
+      const material = materialAt(mesh, geometry, start) as THREE.MeshStandardMaterial | undefined;
+      materialColor.set(material?.color ?? 0xffffff);
+      colored ||= materialColor.getHex() !== 0xffffff;
+      const texture = uv ? textureIndex(material?.map) : -1;
+      textured ||= texture >= 0;
+      triangleTextures.push(texture);
+
+      for (let v = start; v < start + 3; v++) {
+        positions.push(position.getX(v), position.getY(v), position.getZ(v));
+        colors.push(
+          (color ? color.getX(v) : 1) * materialColor.r,
+          (color ? color.getY(v) : 1) * materialColor.g,
+          (color ? color.getZ(v) : 1) * materialColor.b
+        );
+        uvs.push(uv ? uv.getX(v) : 0, uv ? uv.getY(v) : 0);
+      }
+    }
+    geometry.dispose();
+  });
+
+  if (positions.length === 0) {
+    throw new Error(`${file.name} has no triangles (point clouds aren't supported).`);
+  }
+  return {
+    positions: new Float32Array(positions),
+    colors: colored || textured ? new Float32Array(colors) : null,
+    uvs: textured ? new Float32Array(uvs) : null,
+    textures,
+    triangleTextures: textured ? new Int32Array(triangleTextures) : null,
+  };
+};
+
+// Loads a mesh file and registers it as a template; returns the template id
+export const importMeshFile = async (file: File): Promise<string> => {
+  const mesh = await loadMeshFile(file);
+  const id = `mesh:${file.name}`;
+  registerTemplateSource({ kind: 'mesh', id, name: file.name.slice(0, file.name.lastIndexOf('.')) || file.name, mesh });
+  return id;
+};
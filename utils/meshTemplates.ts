@@ -0,0 +1,238 @@
+import { RandomFn } from '../simulation/random';
+import { TemplateDefinition, TemplatePoints } from './templates';
+
+// Linear rgb (0..1) pixels, row 0 at the top. flipY: uv v = 0 is the bottom
+// row, as in three's default textures (glTF uses the top row).
+export interface MeshTexture {
+  width: number;
+  height: number;
+  data: Float32Array;
+  flipY: boolean;
+}
+
+// An imported mesh as a triangle soup, per triangle: 9 position numbers and
+// optionally 9 color (rgb 0..1) and 6 uv numbers for its corners, plus the
+// index of its texture in `textures` (-1 for none).
+export interface MeshData {
+  positions: Float32Array;
+  colors: Float32Array | null;
+  uvs: Float32Array | null;
+  textures: MeshTexture[];
+  triangleTextures: Int32Array | null;
+}
+
+// Imported meshes are fitted into a box this size, like the built-in templates
+const DEFAULT_SIZE = 20;
+// Cells along the longest side of the grid the inside of the mesh is sampled on
+const VOXELS = 48;
+
+interface Volume {
+  cellSize: number;
+  centers: Float32Array; // xyz of every cell inside the mesh
+  colors: Float32Array | null;
+}
+
+// Positions moved so the bounding box is centered on the origin and scaled so its longest side is 1
+const normalize = (positions: Float32Array): Float32Array => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    const axis = i % 3;
+    min[axis] = Math.min(min[axis], positions[i]);
+    max[axis] = Math.max(max[axis], positions[i]);
+  }
+  const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+  const normalized = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i++) {
+    const axis = i % 3;
+    normalized[i] = (positions[i] - (min[axis] + max[axis]) / 2) / extent;
+  }
+  return normalized;
+};
+
+/**
+ * Samples points of a mesh: area-weighted on its surface or uniformly through
+ * its inside, with their colors from the vertex colors and textures.
+ */
+class MeshSampler {
+  readonly hasColors: boolean;
+  private readonly positions: Float32Array;
+  private readonly triangles: number;
+  private readonly cumulativeArea: Float64Array;
+  private volume: Volume | null | undefined; // null: the mesh has no inside (not closed)
+
+  constructor(private readonly mesh: MeshData) {
+    this.positions = normalize(mesh.positions);
+    this.triangles = Math.floor(this.positions.length / 9);
+    this.hasColors = mesh.colors !== null || mesh.textures.length > 0;
+
+    this.cumulativeArea = new Float64Array(this.triangles);
+    const p = this.positions;
+    let total = 0;
+    for (let t = 0; t < this.triangles; t++) {
+      const o = t * 9;
+      const abx = p[o + 3] - p[o], aby = p[o + 4] - p[o + 1], abz = p[o + 5] - p[o + 2];
+      const acx = p[o + 6] - p[o], acy = p[o + 7] - p[o + 1], acz = p[o + 8] - p[o + 2];
+      total += Math.hypot(aby * acz - abz * acy, abz * acx - abx * acz, abx * acy - aby * acx) / 2;
+      this.cumulativeArea[t] = total;
+    }
+  }
+
+  // A point on the surface, picked uniformly by area; writes rgb into `color`
+  surfacePoint(random: RandomFn, out: number[], color: number[]) {
+    const areas = this.cumulativeArea;
+    const target = random() * areas[areas.length - 1];
+    let lo = 0;
+    let hi = areas.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (areas[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+    // Uniform barycentric coordinates
+    const s = Math.sqrt(random());
+    const r = random();
+    this.interpolate(lo, 1 - s, s * (1 - r), s * r, out, color);
+  }
+
+  // A point inside the mesh, or on its surface if it isn't closed
+  volumePoint(random: RandomFn, out: number[], color: number[]) {
+    if (this.volume === undefined) this.volume = this.voxelize();
+    const volume = this.volume;
+    if (!volume) {
+      this.surfacePoint(random, out, color);
+      return;
+    }
+    const cell = Math.min(volume.centers.length / 3 - 1, Math.floor(random() * (volume.centers.length / 3)));
+    for (let axis = 0; axis < 3; axis++) {
+      out[axis] = volume.centers[cell * 3 + axis] + (random() - 0.5) * volume.cellSize;
+      color[axis] = volume.colors ? volume.colors[cell * 3 + axis] : 1;
+    }
+  }
+
+  // Point and color at barycentric (u, v, w) of triangle t
+  private interpolate(t: number, u: number, v: number, w: number, out: number[], color: number[]) {
+    const p = this.positions;
+    const o = t * 9;
+    for (let axis = 0; axis < 3; axis++) {
+      out[axis] = u * p[o + axis] + v * p[o + 3 + axis] + w * p[o + 6 + axis];
+    }
+    if (!this.hasColors) return;
+
+    const { colors, uvs, textures, triangleTextures } = this.mesh;
+    for (let axis = 0; axis < 3; axis++) {
+      color[axis] = colors ? u * colors[o + axis] + v * colors[o + 3 + axis] + w * colors[o + 6 + axis] : 1;
+    }
+    const texture = uvs && triangleTextures ? textures[triangleTextures[t]] : undefined;
+    if (!texture || !uvs) return;
+    const q = t * 6;
+    const tu = u * uvs[q] + v * uvs[q + 2] + w * uvs[q + 4];
+    const tv = u * uvs[q + 1] + v * uvs[q + 3] + w * uvs[q + 5];
+    // Nearest texel, repeating outside 0..1
+    const wrap = (value: number) => value - Math.floor(value);
+    const x = Math.min(texture.width - 1, Math.floor(wrap(tu) * texture.width));
+    const row = texture.flipY ? 1 - wrap(tv) : wrap(tv);
+    const y = Math.min(texture.height - 1, Math.floor(row * texture.height));
+    const texel = (y * texture.width + x) * 3;
+    for (let axis = 0; axis < 3; axis++) {
+      color[axis] *= texture.data[texel + axis];
+    }
+  }
+
+  // Marks the grid cells inside the mesh by casting a ray along z through every
+  // column of cells: between an odd and the following even crossing of the
+  // surface is inside. Cells take the color of the surface where their run starts.
+  private voxelize(): Volume | null {
+    const p = this.positions;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < p.length; i++) {
+      min[i % 3] = Math.min(min[i % 3], p[i]);
+      max[i % 3] = Math.max(max[i % 3], p[i]);
+    }
+    const cellSize = 1 / VOXELS;
+    const nx = Math.max(1, Math.ceil((max[0] - min[0]) / cellSize));
+    const ny = Math.max(1, Math.ceil((max[1] - min[1]) / cellSize));
+    const columnX = (i: number) => min[0] + (i + 0.5) * cellSize;
+    const columnY = (j: number) => min[1] + (j + 0.5) * cellSize;
+
+    const hits: { z: number; t: number; u: number; v: number; w: number }[][] = Array.from({ length: nx * ny }, () => []);
+    for (let t = 0; t < this.triangles; t++) {
+      const o = t * 9;
+      const ax = p[o], ay = p[o + 1], bx = p[o + 3], by = p[o + 4], cx = p[o + 6], cy = p[o + 7];
+      const det = (by - cy) * (ax - cx) + (cx - bx) * (ay - cy);
+      if (det === 0) continue; // Edge-on to the rays
+      const i0 = Math.max(0, Math.ceil((Math.min(ax, bx, cx) - min[0]) / cellSize - 0.5));
+      const i1 = Math.min(nx - 1, Math.floor((Math.max(ax, bx, cx) - min[0]) / cellSize - 0.5));
+      const j0 = Math.max(0, Math.ceil((Math.min(ay, by, cy) - min[1]) / cellSize - 0.5));
+      const j1 = Math.min(ny - 1, Math.floor((Math.max(ay, by, cy) - min[1]) / cellSize - 0.5));
+      for (let i = i0; i <= i1; i++) {
+        for (let j = j0; j <= j1; j++) {
+          const x = columnX(i);
+          const y = columnY(j);
+          const u = ((by - cy) * (x - cx) + (cx - bx) * (y - cy)) / det;
+          const v = ((cy - ay) * (x - cx) + (ax - cx) * (y - cy)) / det;
+          const w = 1 - u - v;
+          if (u < 0 || v < 0 || w < 0) continue;
+          hits[i * ny + j].push({ z: u * p[o + 2] + v * p[o + 5] + w * p[o + 8], t, u, v, w });
+        }
+      }
+    }
+
+    const centers: number[] = [];
+    const colors: number[] = [];
+    const point = [0, 0, 0];
+    const color = [1, 1, 1];
+    for (let i = 0; i < nx; i++) {
+      for (let j = 0; j < ny; j++) {
+        // A ray through an edge hits both triangles sharing it; count that once
+        const column = hits[i * ny + j]
+          .sort((a, b) => a.z - b.z)
+          .filter((hit, k, sorted) => k === 0 || hit.z - sorted[k - 1].z > 1e-6);
+        for (let k = 0; k + 1 < column.length; k += 2) {
+          const enter = column[k];
+          this.interpolate(enter.t, enter.u, enter.v, enter.w, point, color);
+          const start = Math.ceil((enter.z - min[2]) / cellSize - 0.5);
+          for (let z = start; min[2] + (z + 0.5) * cellSize <= column[k + 1].z; z++) {
+            centers.push(columnX(i), columnY(j), min[2] + (z + 0.5) * cellSize);
+            colors.push(color[0], color[1], color[2]);
+          }
+        }
+      }
+    }
+    if (centers.length === 0) return null;
+    return {
+      cellSize,
+      centers: new Float32Array(centers),
+      colors: this.hasColors ? new Float32Array(colors) : null,
+    };
+  }
+}
+
+export const createMeshTemplate = (id: string, name: string, mesh: MeshData): TemplateDefinition => {
+  const sampler = new MeshSampler(mesh);
+  return {
+    id,
+    name,
+    icon: '📦',
+    params: [
+      { key: 'size', label: 'Size', min: 5, max: 40, step: 1, default: DEFAULT_SIZE },
+      { key: 'volume', label: 'Share inside the mesh', min: 0, max: 1, step: 0.05, default: 0 },
+    ],
+    generate: (count, params, random): TemplatePoints => {
+      const positions = new Float32Array(count * 3);
+      const colors = sampler.hasColors ? new Float32Array(count * 3) : undefined;
+      const point = [0, 0, 0];
+      const color = [1, 1, 1];
+      for (let i = 0; i < count; i++) {
+        if (random() < params.volume) sampler.volumePoint(random, point, color);
+        else sampler.surfacePoint(random, point, color);
+        for (let axis = 0; axis < 3; axis++) {
+          positions[i * 3 + axis] = point[axis] * params.size;
+          if (colors) colors[i * 3 + axis] = color[axis];
+        }
+      }
+      return { positions, colors };
+    },
+  };
+};
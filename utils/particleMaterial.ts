@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import { SimulationState } from '../simulation/state';
+import { EXPLOSION_DURATION, EXPLOSION_WAVE_SPEED } from '../simulation/explosion';
+
+interface ParticleMaterialOptions {
+  // Read positions from a float texture (GPU backend) instead of the position attribute
+  gpuPositions?: boolean;
+}
+
+// Custom Shader Material shared by the CPU and GPU particle renderers
+export const createParticleMaterial = (
+  color: string,
+  size: number,
+  { gpuPositions = false }: ParticleMaterialOptions = {}
+) => {
+  return new THREE.ShaderMaterial({
+    defines: {
+      EXPLOSION_DURATION: EXPLOSION_DURATION.toFixed(4),
+      EXPLOSION_WAVE_SPEED: EXPLOSION_WAVE_SPEED.toFixed(4),
+      ...(gpuPositions ? { GPU_POSITIONS: '' } : {}),
+    },
+    uniforms: {
+      uTime: { value: 0 },
+      uColor: { value: new THREE.Color(color) },
+      uSize: { value: size * 30.0 },
+      uPositions: { value: null },
+      uExplosionCenter: { value: new THREE.Vector3() },
+      uExplosionAge: { value: 100 },
+      uExplosionIntensity: { value: 1 },
+    },
+    vertexShader: `
+      uniform float uTime;
+      uniform float uSize;
+      uniform vec3 uExplosionCenter;
+      uniform float uExplosionAge;
+      uniform float uExplosionIntensity;
+      attribute vec3 color;
+      attribute float alpha; // 0 = hidden (e.g. merged away)
+      #ifdef GPU_POSITIONS
+        uniform sampler2D uPositions;
+        attribute vec2 reference; // uv of this particle's texel
+      #endif
+      varying vec3 vColor;
+      varying float vAlpha;
+      varying float vHeat;
+
+      // Heat from the explosion shockwave: a particle flares up when the wave
+      // front reaches it and cools back to its own color afterwards
+      float explosionHeat(vec3 p) {
+        if (uExplosionAge <= 0.0 || uExplosionAge > EXPLOSION_DURATION * 2.0) return 0.0;
+        float d = distance(p, uExplosionCenter);
+        float sincePassed = uExplosionAge - d / EXPLOSION_WAVE_SPEED;
+        if (sincePassed < 0.0) return 0.0;
+        return uExplosionIntensity * exp(-sincePassed * 2.5) / (1.0 + d * 0.05);
+      }
+
+      void main() {
+        #ifdef GPU_POSITIONS
+          vec3 particlePosition = texture2D(uPositions, reference).xyz;
+        #else
+          vec3 particlePosition = position;
+        #endif
+        float heat = explosionHeat(particlePosition);
+        // Orange embers, white-hot at the highest heat
+        vec3 hot = mix(vec3(1.0, 0.35, 0.05), vec3(1.0, 0.95, 0.8), clamp(heat - 0.6, 0.0, 1.0));
+        vColor = mix(color, hot, clamp(heat, 0.0, 1.0));
+        vAlpha = alpha;
+        vHeat = heat;
+        vec4 mvPosition = modelViewMatrix * vec4(particlePosition, 1.0);
+        gl_PointSize = alpha > 0.0 ? uSize * (1.0 + min(heat, 1.5) * 0.6) * (10.0 / -mvPosition.z) : 0.0;
+        gl_Position = projectionMatrix * mvPosition;
+      }
+    `,
+    fragmentShader: `
+      varying vec3 vColor;
+      varying float vAlpha;
+      varying float vHeat;
+      void main() {
+        if (vAlpha <= 0.0) discard;
+        float r = distance(gl_PointCoord, vec2(0.5, 0.5));
+        if (r > 0.5) discard;
+        float glow = 1.0 - (r * 2.0);
+        glow = pow(glow, 1.5); 
+        gl_FragColor = vec4(vColor * (1.0 + min(vHeat, 1.5)), glow * vAlpha);
+      }
+    `,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending
+  });
+};
+
+// Feed the current explosion (from simulation state) to the heat coloring,
+// scaled by how hard it was triggered
+export const updateExplosionUniforms = (
+  material: THREE.ShaderMaterial,
+  state: SimulationState,
+  intensity: number
+) => {
+  const u = material.uniforms;
+  u.uExplosionAge.value = state.time - state.explosionTime;
+  u.uExplosionIntensity.value = intensity * state.explosionStrength;
+  (u.uExplosionCenter.value as THREE.Vector3).set(state.explosionCenter.x, state.explosionCenter.y, state.explosionCenter.z);
+};
@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import { RasterData } from './rasterTemplates';
+import { registerTemplateSource } from './templateSources';
+
+// Text is drawn this many pixels high per line; the template scales it to its width
+const TEXT_PX = 128;
+// Images are read back at most this big
+const MAX_IMAGE_SIZE = 256;
+// How far (rgb distance, 0..√3) a pixel of an opaque image must be from the
+// background color to count as part of the subject
+const BACKGROUND_DISTANCE = 0.25;
+
+export const FONTS = [
+  { label: 'Sans-serif', css: 'sans-serif' },
+  { label: 'Serif', css: 'serif' },
+  { label: 'Monospace', css: 'monospace' },
+  { label: 'Impact', css: 'Impact, sans-serif' },
+  { label: 'Georgia', css: 'Georgia, serif' },
+  { label: 'Comic', css: '"Comic Sans MS", cursive' },
+];
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D is not available.');
+  return context;
+};
+
+export const rasterizeText = async (text: string, font: string): Promise<RasterData> => {
+  const lines = text.split('\n');
+  const fontSpec = `bold ${TEXT_PX}px ${font}`;
+  // Web fonts load lazily; make sure the glyphs are there before drawing
+  await document.fonts.load(fontSpec, text).catch(() => undefined);
+
+  const measure = createContext(1, 1);
+  measure.font = fontSpec;
+  const padding = Math.ceil(TEXT_PX * 0.1);
+  const lineHeight = Math.ceil(TEXT_PX * 1.2);
+  const width = Math.ceil(Math.max(...lines.map((line) => measure.measureText(line).width))) + padding * 2;
+  const height = lines.length * lineHeight + padding * 2;
+
+  const context = createContext(width, height);
+  context.font = fontSpec;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillStyle = '#ffffff';
+  lines.forEach((line, i) => context.fillText(line, width / 2, padding + (i + 0.5) * lineHeight));
+
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const coverage = new Float32Array(width * height);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = pixels[i * 4 + 3] / 255;
+  return { kind: 'text', width, height, coverage, brightness: null, colors: null };
+};
+
+/**
+ * Reads an image with its colors. The subject is the opaque part of images
+ * with transparency; in opaque images it's whatever differs from the
+ * background, taken to be the color of the corners.
+ */
+export const rasterizeImage = async (file: File): Promise<RasterData> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = createContext(width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const pixels = context.getImageData(0, 0, width, height).data;
+
+  const count = width * height;
+  let opaque = true;
+  for (let i = 0; i < count && opaque; i++) opaque = pixels[i * 4 + 3] === 255;
+  const background = [0, 0, 0];
+  for (const corner of [0, width - 1, count - width, count - 1]) {
+    for (let c = 0; c < 3; c++) background[c] += pixels[corner * 4 + c] / 255 / 4;
+  }
+
+  const coverage = new Float32Array(count);
+  const brightness = new Float32Array(count);
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+  for (let i = 0; i < count; i++) {
+    const r = pixels[i * 4] / 255;
+    const g = pixels[i * 4 + 1] / 255;
+    const b = pixels[i * 4 + 2] / 255;
+    coverage[i] = opaque
+      ? Math.hypot(r - background[0], g - background[1], b - background[2]) > BACKGROUND_DISTANCE ? 1 : 0
+      : pixels[i * 4 + 3] / 255;
+    brightness[i] = (0.2126 * r + 0.7152 * g + 0.0722 * b) * (pixels[i * 4 + 3] / 255);
+    color.setRGB(r, g, b, THREE.SRGBColorSpace);
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+  return { kind: 'image', width, height, coverage, brightness, colors };
+};
+
+const MAX_NAME_LENGTH = 16;
+
+// Rasterizes text and registers it as a template; returns the template id
+export const createTextTemplate = async (text: string, font: string): Promise<string> => {
+  if (!text.trim()) throw new Error('Enter some text first.');
+  const raster = await rasterizeText(text, font);
+  const id = `text:${font}:${text}`;
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  const name = oneLine.length > MAX_NAME_LENGTH ? `${oneLine.slice(0, MAX_NAME_LENGTH - 1)}…` : oneLine;
+  registerTemplateSource({ kind: 'raster', id, name, raster });
+  return id;
+};
+
+// Reads an image file and registers it as a template; returns the template id
+export const importImageFile = async (file: File): Promise<string> => {
+  const raster = await rasterizeImage(file);
+  const id = `image:${file.name}`;
+  registerTemplateSource({ kind: 'raster', id, name: file.name.slice(0, file.name.lastIndexOf('.')) || file.name, raster });
+  return id;
+};
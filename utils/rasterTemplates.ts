@@ -0,0 +1,95 @@
+import { RandomFn } from '../simulation/random';
+import { TemplateDefinition, TemplatePoints } from './templates';
+
+// Rasterized text or image, row 0 at the top. `coverage` (0..1 per pixel) is
+// how much of the pixel the text or the image's subject fills; images also
+// have their brightness (0 where transparent) and linear rgb colors per pixel.
+export interface RasterData {
+  kind: 'text' | 'image';
+  width: number;
+  height: number;
+  coverage: Float32Array;
+  brightness: Float32Array | null;
+  colors: Float32Array | null;
+}
+
+// Cumulative pixel weights, for picking pixels in proportion to their weight
+const cumulative = (weights: Float32Array): Float64Array | null => {
+  const sums = new Float64Array(weights.length);
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) {
+    total += weights[i];
+    sums[i] = total;
+  }
+  return total > 0 ? sums : null;
+};
+
+const pick = (sums: Float64Array, random: RandomFn) => {
+  const target = random() * sums[sums.length - 1];
+  let lo = 0;
+  let hi = sums.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sums[mid] <= target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Spreads particles over the filled pixels of a raster (or by brightness),
+ * facing the camera, `size` units across and `depth` units thick.
+ */
+export const createRasterTemplate = (id: string, name: string, raster: RasterData): TemplateDefinition => {
+  const { width, height } = raster;
+  // Built on first use: most rasters only ever use one of them
+  let filled: Float64Array | null | undefined;
+  let bright: Float64Array | null | undefined;
+  const weights = (byBrightness: boolean) => {
+    if (byBrightness && raster.brightness) {
+      if (bright === undefined) bright = cumulative(raster.brightness);
+      if (bright) return bright;
+    }
+    // Anti-aliased edges count as filled from half coverage
+    if (filled === undefined) filled = cumulative(raster.coverage.map((c) => (c >= 0.5 ? 1 : 0)));
+    return filled;
+  };
+
+  const image = raster.kind === 'image';
+  return {
+    id,
+    name,
+    icon: image ? '🖼️' : '🔤',
+    params: [
+      { key: 'size', label: 'Width', min: 5, max: 60, step: 1, default: image ? 20 : 30 },
+      { key: 'depth', label: 'Depth', min: 0, max: 8, step: 0.25, default: image ? 0.5 : 2 },
+      ...(image
+        ? [
+            { key: 'brightness', label: 'Spread by brightness', min: 0, max: 1, step: 1, default: 0 },
+            { key: 'imageColors', label: 'Image colors', min: 0, max: 1, step: 1, default: 1 },
+          ]
+        : []),
+    ],
+    generate: (count, params, random): TemplatePoints => {
+      const positions = new Float32Array(count * 3);
+      const colors = image && params.imageColors && raster.colors ? new Float32Array(count * 3) : undefined;
+      const sums = weights(params.brightness === 1);
+      const scale = params.size / width;
+      for (let i = 0; i < count; i++) {
+        // Nothing filled at all: a flat box the size of the raster
+        const pixel = sums ? pick(sums, random) : Math.floor(random() * width * height);
+        const x = (pixel % width) + random();
+        const y = Math.floor(pixel / width) + random();
+        positions[i * 3] = (x - width / 2) * scale;
+        positions[i * 3 + 1] = (height / 2 - y) * scale;
+        positions[i * 3 + 2] = (random() - 0.5) * params.depth;
+        if (colors && raster.colors) {
+          colors[i * 3] = raster.colors[pixel * 3];
+          colors[i * 3 + 1] = raster.colors[pixel * 3 + 1];
+          colors[i * 3 + 2] = raster.colors[pixel * 3 + 2];
+        }
+      }
+      return { positions, colors };
+    },
+  };
+};
@@ -1,13 +1,15 @@
 import * as THREE from 'three';
-import { ShapeType } from '../types';
+import { ShapeSpec, TemplateParams } from '../types';
+import { RandomFn } from '../simulation/random';
+import { getTemplate, registerTemplate, resolveTemplateParams, TemplatePoints } from './templates';
 
 // Helper for random point in sphere
-const randomInSphere = (radius: number) => {
-  const u = Math.random();
-  const v = Math.random();
+const randomInSphere = (radius: number, random: () => number = Math.random) => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   const sinPhi = Math.sin(phi);
   return new THREE.Vector3(
     r * sinPhi * Math.cos(theta),
@@ -16,116 +18,212 @@ const randomInSphere = (radius: number) => {
   );
 };
 
-export const generateParticles = (count: number, type: ShapeType): Float32Array => {
-  const positions = new Float32Array(count * 3);
+// Most templates place every particle on its own: `point` sets the i-th of `count`
+const pointwise =
+  (point: (p: THREE.Vector3, i: number, count: number, params: TemplateParams, random: RandomFn) => void) =>
+  (count: number, params: TemplateParams, random: RandomFn): TemplatePoints => {
+    const positions = new Float32Array(count * 3);
+    const p = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+      p.set(0, 0, 0);
+      point(p, i, count, params, random);
+      positions[i * 3] = p.x;
+      positions[i * 3 + 1] = p.y;
+      positions[i * 3 + 2] = p.z;
+    }
+    return { positions };
+  };
 
-  for (let i = 0; i < count; i++) {
-    let p = new THREE.Vector3();
+const SPHERE_ID = 'sphere';
 
-    switch (type) {
-      case ShapeType.SPHERE:
-        p = randomInSphere(10);
-        break;
+// The built-in templates, in display order
+registerTemplate({
+  id: SPHERE_ID,
+  name: 'Sphere',
+  icon: '⚪',
+  params: [{ key: 'radius', label: 'Radius', min: 2, max: 20, step: 0.5, default: 10 }],
+  generate: pointwise((p, i, count, params, random) => {
+    p.copy(randomInSphere(params.radius, random));
+  }),
+});
 
-      case ShapeType.CUBE:
-        p.set(
-          (Math.random() - 0.5) * 20,
-          (Math.random() - 0.5) * 20,
-          (Math.random() - 0.5) * 20
-        );
-        break;
+registerTemplate({
+  id: 'cube',
+  name: 'Cube',
+  icon: '🧊',
+  params: [{ key: 'size', label: 'Edge length', min: 4, max: 40, step: 1, default: 20 }],
+  generate: pointwise((p, i, count, params, random) => {
+    p.set(
+      (random() - 0.5) * params.size,
+      (random() - 0.5) * params.size,
+      (random() - 0.5) * params.size
+    );
+  }),
+});
 
-      case ShapeType.HEART:
-        // Parametric heart
-        const t = Math.random() * Math.PI * 2;
-        const hR = Math.random() * 2; // thickness
-        // Heart curve
-        const x = 16 * Math.pow(Math.sin(t), 3);
-        const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
-        // Add volume
-        p.set(x, y, (Math.random() - 0.5) * 4);
-        p.multiplyScalar(0.5); // Scale down
-        // Randomize inside
-        p.add(randomInSphere(0.5));
-        break;
+registerTemplate({
+  id: 'heart',
+  name: 'Heart',
+  icon: '❤️',
+  params: [
+    { key: 'scale', label: 'Scale', min: 0.2, max: 1, step: 0.05, default: 0.5 },
+    { key: 'depth', label: 'Depth', min: 0, max: 12, step: 0.5, default: 4 },
+    { key: 'fuzz', label: 'Fuzz', min: 0, max: 2, step: 0.1, default: 0.5 },
+  ],
+  generate: pointwise((p, i, count, params, random) => {
+    // Parametric heart curve
+    const t = random() * Math.PI * 2;
+    const x = 16 * Math.pow(Math.sin(t), 3);
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    // Add volume
+    p.set(x, y, (random() - 0.5) * params.depth);
+    p.multiplyScalar(params.scale);
+    // Randomize inside
+    p.add(randomInSphere(params.fuzz, random));
+  }),
+});
 
-      case ShapeType.FLOWER:
-        // Phyllotaxis
-        const angle = i * 137.5 * (Math.PI / 180);
-        const radius = 0.5 * Math.sqrt(i);
+registerTemplate({
+  id: 'flower',
+  name: 'Flower',
+  icon: '🌻',
+  params: [
+    { key: 'spacing', label: 'Seed spacing', min: 0.05, max: 0.5, step: 0.01, default: 0.2 },
+    { key: 'angle', label: 'Divergence angle (°)', min: 130, max: 145, step: 0.1, default: 137.5 },
+    { key: 'depth', label: 'Depth', min: 0, max: 2, step: 0.05, default: 0.5 },
+  ],
+  generate: pointwise((p, i, count, params, random) => {
+    // Phyllotaxis
+    const angle = i * params.angle * (Math.PI / 180);
+    const radius = Math.sqrt(i);
+    p.set(
+      radius * Math.cos(angle),
+      radius * Math.sin(angle),
+      (random() - 0.5) * (radius * params.depth) // Slight depth
+    );
+    p.multiplyScalar(params.spacing);
+  }),
+});
+
+registerTemplate({
+  id: 'saturn',
+  name: 'Saturn',
+  icon: '🪐',
+  params: [
+    { key: 'planetRadius', label: 'Planet radius', min: 1, max: 8, step: 0.5, default: 4 },
+    { key: 'ringInner', label: 'Ring inner radius', min: 4, max: 14, step: 0.5, default: 6 },
+    { key: 'ringWidth', label: 'Ring width', min: 0.5, max: 12, step: 0.5, default: 6 },
+    { key: 'ringThickness', label: 'Ring thickness', min: 0, max: 2, step: 0.05, default: 0.5 },
+    { key: 'ringShare', label: 'Share in ring', min: 0, max: 1, step: 0.05, default: 0.4 },
+    { key: 'tilt', label: 'Ring tilt (°)', min: 0, max: 90, step: 1, default: 30 },
+  ],
+  generate: (count, params, random) => {
+    const tiltAxis = new THREE.Vector3(1, 0, 1).normalize();
+    const tilt = params.tilt * (Math.PI / 180);
+    return pointwise((p) => {
+      if (random() > params.ringShare) {
+        // Planet
+        p.copy(randomInSphere(params.planetRadius, random));
+      } else {
+        // Ring
+        const rRing = params.ringInner + random() * params.ringWidth;
+        const thetaRing = random() * Math.PI * 2;
         p.set(
-            radius * Math.cos(angle), 
-            radius * Math.sin(angle), 
-            (Math.random() - 0.5) * (radius * 0.5) // Slight depth
+          rRing * Math.cos(thetaRing),
+          (random() - 0.5) * params.ringThickness,
+          rRing * Math.sin(thetaRing)
         );
-        p.multiplyScalar(0.4); 
-        break;
+        p.applyAxisAngle(tiltAxis, tilt);
+      }
+    })(count, params, random);
+  },
+  ringedPlanets: true,
+});
 
-      case ShapeType.SATURN:
-        if (Math.random() > 0.4) {
-          // Planet
-          p = randomInSphere(4);
-        } else {
-          // Ring
-          const rRing = 6 + Math.random() * 6;
-          const thetaRing = Math.random() * Math.PI * 2;
-          p.set(
-            rRing * Math.cos(thetaRing),
-            (Math.random() - 0.5) * 0.5, // Thin ring
-            rRing * Math.sin(thetaRing)
-          );
-          // Tilt ring
-          p.applyAxisAngle(new THREE.Vector3(1, 0, 1).normalize(), Math.PI / 6);
-        }
-        break;
-
-      case ShapeType.GALAXY:
-          const arms = 3;
-          const spin = i / count * arms * Math.PI * 2;
-          const dist = Math.random() * 15;
-          p.set(
-              Math.cos(spin + dist) * dist,
-              (Math.random() - 0.5) * (20 / (dist + 1)), // Bulge at center
-              Math.sin(spin + dist) * dist
-          );
-          break;
+registerTemplate({
+  id: 'buddha',
+  name: 'Buddha',
+  icon: '🧘',
+  params: [
+    { key: 'scale', label: 'Scale', min: 0.3, max: 2, step: 0.05, default: 1 },
+    { key: 'headRadius', label: 'Head radius', min: 0.8, max: 2, step: 0.1, default: 1.5 },
+    { key: 'bodyRadius', label: 'Body radius', min: 2.5, max: 4.5, step: 0.1, default: 3.5 },
+  ],
+  generate: (count, params, random) => {
+    const headCenter = new THREE.Vector3(0, 4, 0);
+    const bodyCenter = new THREE.Vector3(0, 0, 0);
+    return pointwise((p) => {
+      // Approximated Meditating Figure using SDF logic (simplified constructive geometry):
+      // rejection sample points to fit a rough shape
+      let valid = false;
+      let attempts = 0;
+      while (!valid && attempts < 20) {
+        const tryP = new THREE.Vector3(
+          (random() - 0.5) * 10,
+          (random() - 0.5) * 12,
+          (random() - 0.5) * 6
+        );
 
-      case ShapeType.BUDDHA:
-        // Approximated Meditating Figure using SDF logic (simplified constructive geometry)
-        // We will rejection sample points to fit a rough shape
-        let valid = false;
-        let attempts = 0;
-        while (!valid && attempts < 20) {
-          const tryP = new THREE.Vector3(
-            (Math.random() - 0.5) * 10,
-            (Math.random() - 0.5) * 12,
-            (Math.random() - 0.5) * 6
-          );
-          
-          // Head (Sphere)
-          const head = tryP.distanceTo(new THREE.Vector3(0, 4, 0)) < 1.5;
-          // Body (Capsule/Sphere)
-          const body = tryP.distanceTo(new THREE.Vector3(0, 0, 0)) < 3.5;
-          // Legs (Crossed - roughly two flattened spheres at bottom)
-          const legs = (tryP.y < -2 && tryP.y > -5 && Math.abs(tryP.x) < 4 && Math.abs(tryP.z) < 3);
+        // Head (Sphere)
+        const head = tryP.distanceTo(headCenter) < params.headRadius;
+        // Body (Capsule/Sphere)
+        const body = tryP.distanceTo(bodyCenter) < params.bodyRadius;
+        // Legs (Crossed - roughly two flattened spheres at bottom)
+        const legs = (tryP.y < -2 && tryP.y > -5 && Math.abs(tryP.x) < 4 && Math.abs(tryP.z) < 3);
 
-          if (head || body || legs) {
-            p = tryP;
-            valid = true;
-          }
-          attempts++;
+        if (head || body || legs) {
+          p.copy(tryP);
+          valid = true;
         }
-        if (!valid) p = randomInSphere(3); // Fallback
-        break;
-        
-      default:
-        p = randomInSphere(10);
-    }
+        attempts++;
+      }
+      if (!valid) p.copy(randomInSphere(3, random)); // Fallback
+      p.multiplyScalar(params.scale);
+    })(count, params, random);
+  },
+});
+
+registerTemplate({
+  id: 'galaxy',
+  name: 'Galaxy',
+  icon: '🌌',
+  params: [
+    { key: 'arms', label: 'Arms', min: 1, max: 8, step: 1, default: 3 },
+    { key: 'radius', label: 'Radius', min: 5, max: 25, step: 0.5, default: 15 },
+    { key: 'twist', label: 'Twist', min: 0, max: 2, step: 0.05, default: 1 },
+    { key: 'bulge', label: 'Bulge', min: 0, max: 40, step: 1, default: 20 },
+  ],
+  generate: pointwise((p, i, count, params, random) => {
+    const spin = i / count * params.arms * Math.PI * 2;
+    const dist = random() * params.radius;
+    const angle = spin + dist * params.twist;
+    p.set(
+      Math.cos(angle) * dist,
+      (random() - 0.5) * (params.bulge / (dist + 1)), // Bulge at center
+      Math.sin(angle) * dist
+    );
+  }),
+});
 
-    positions[i * 3] = p.x;
-    positions[i * 3 + 1] = p.y;
-    positions[i * 3 + 2] = p.z;
-  }
+registerTemplate({
+  id: 'fireworks',
+  name: 'Fireworks',
+  icon: '🎆',
+  params: [],
+  // Only a resting spot: fireworks particles are spawned by emitters
+  generate: pointwise((p, i, count, params, random) => {
+    p.set((random() - 0.5) * 16, -12, (random() - 0.5) * 4);
+  }),
+  emitter: true,
+});
 
-  return positions;
+// `random` can be swapped for a seeded generator to get reproducible shapes.
+// Unknown templates fall back to the sphere.
+export const generateParticles = (
+  count: number,
+  shape: ShapeSpec,
+  random: RandomFn = Math.random
+): TemplatePoints => {
+  const template = getTemplate(shape.template) ?? getTemplate(SPHERE_ID)!;
+  return template.generate(count, resolveTemplateParams(template, shape.params), random);
 };
@@ -0,0 +1,24 @@
+import { createMeshTemplate, MeshData } from './meshTemplates';
+import { createRasterTemplate, RasterData } from './rasterTemplates';
+import { registerTemplate } from './templates';
+
+// What a template made from user data (an imported mesh, text or an image) is
+// made from. Plain data, so it can be posted to the simulation worker, which
+// builds the same template from it.
+export type TemplateSource =
+  | { kind: 'mesh'; id: string; name: string; mesh: MeshData }
+  | { kind: 'raster'; id: string; name: string; raster: RasterData };
+
+const sources = new Map<string, TemplateSource>();
+
+export const getTemplateSource = (id: string): TemplateSource | undefined => sources.get(id);
+
+// Registers the template made from `source`; the same id replaces an earlier one
+export const registerTemplateSource = (source: TemplateSource) => {
+  sources.set(source.id, source);
+  registerTemplate(
+    source.kind === 'mesh'
+      ? createMeshTemplate(source.id, source.name, source.mesh)
+      : createRasterTemplate(source.id, source.name, source.raster)
+  );
+};
@@ -0,0 +1,54 @@
+import { TemplateParams } from '../types';
+import { RandomFn } from '../simulation/random';
+
+// One adjustable number of a template, shown as a slider
+export interface TemplateParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+// Generated targets: xyz per particle, and optionally rgb (0..1) per particle
+// for templates with colors of their own (they override the particle color)
+export interface TemplatePoints {
+  positions: Float32Array;
+  colors?: Float32Array;
+}
+
+export interface TemplateDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  params: TemplateParam[];
+  // Targets for `count` particles. Only `random` may be used for randomness,
+  // so seeded runs are reproducible.
+  generate: (count: number, params: TemplateParams, random: RandomFn) => TemplatePoints;
+  // New planets get a ring while this template is shown
+  ringedPlanets?: boolean;
+  // Particles are spawned by emitters instead of holding the shape; the
+  // positions are only where they rest. CPU simulation only.
+  emitter?: boolean;
+}
+
+const definitions = new Map<string, TemplateDefinition>();
+
+// Later registrations with the same id replace earlier ones
+export const registerTemplate = (definition: TemplateDefinition) => {
+  definitions.set(definition.id, definition);
+};
+
+export const getTemplate = (id: string): TemplateDefinition | undefined => definitions.get(id);
+
+export const listTemplates = (): TemplateDefinition[] => [...definitions.values()];
+
+// The template's parameters: `params` over the defaults, clamped to their ranges
+export const resolveTemplateParams = (template: TemplateDefinition, params: TemplateParams = {}): TemplateParams =>
+  Object.fromEntries(
+    template.params.map((param) => {
+      const value = params[param.key];
+      return [param.key, typeof value === 'number' ? Math.min(param.max, Math.max(param.min, value)) : param.default];
+    })
+  );
@@ -1,18 +1,74 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Cross-origin isolation unlocks SharedArrayBuffer for the simulation worker.
+// `credentialless` (rather than `require-corp`) keeps the CDN script/font tags working.
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
+const MEDIAPIPE_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision');
+const MEDIAPIPE_VERSION: string = JSON.parse(fs.readFileSync(path.join(MEDIAPIPE_DIR, 'package.json'), 'utf8')).version;
+const WASM_ROUTE = 'mediapipe/wasm';
+
+// Serves the MediaPipe WASM fileset from the installed package in dev and copies
+// it into the build, so the runtime always matches the JS API and needs no CDN.
+// A version.json alongside lets the loader detect mismatched custom copies.
+const mediapipeWasm = (): Plugin => {
+  const wasmDir = path.join(MEDIAPIPE_DIR, 'wasm');
+  const manifest = JSON.stringify({ version: MEDIAPIPE_VERSION });
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use(`/${WASM_ROUTE}`, (req, res, next) => {
+        const name = path.basename((req.url ?? '').split('?')[0]);
+        if (name === 'version.json') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(manifest);
+          return;
+        }
+        const file = path.join(wasmDir, name);
+        if (!name || !fs.existsSync(file)) return next();
+        res.setHeader('Content-Type', name.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        res.setHeader('Content-Length', fs.statSync(file).size);
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of fs.readdirSync(wasmDir)) {
+        this.emitFile({ type: 'asset', fileName: `${WASM_ROUTE}/${name}`, source: fs.readFileSync(path.join(wasmDir, name)) });
+      }
+      this.emitFile({ type: 'asset', fileName: `${WASM_ROUTE}/version.json`, source: manifest });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: crossOriginIsolationHeaders,
+      },
+      preview: {
+        headers: crossOriginIsolationHeaders,
+      },
+      worker: {
+        format: 'es',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Hand tracking assets (see input/mediapipe.ts); unset means bundled/local defaults
+        'process.env.MEDIAPIPE_VERSION': JSON.stringify(MEDIAPIPE_VERSION),
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(env.MEDIAPIPE_WASM_PATH ?? null),
+        'process.env.HAND_MODEL_PATH': JSON.stringify(env.HAND_MODEL_PATH ?? null),
+        'process.env.HAND_MODEL_FALLBACK_URL': JSON.stringify(env.HAND_MODEL_FALLBACK_URL ?? null),
       },
       resolve: {
         alias: {